@@ -1,11 +1,20 @@
-import express from 'express'
+import express, { Request, Response, NextFunction } from 'express'
 import cors from 'cors'
+import routesArquivos from './routes/arquivos'
+import routesCategorias from './routes/categorias'
 import routesClientes from './routes/clientes'
 import routesDespesas from './routes/despesas'
+import routesExportacoes from './routes/exportacoes'
+import routesFiscal from './routes/fiscal'
+import routesImportacoes from './routes/importacoes'
 import routesLogins from './routes/login'
+import routesOrcamentos from './routes/orcamentos'
 import routesProdutos from './routes/produtos'
 import routesReceitas from './routes/receitas'
+import routesRecorrencias from './routes/recorrencias'
+import routesRelatorios from './routes/relatorios'
 import routesUsuarios from './routes/usuarios'
+import { verificaToken } from './middlewares/verificaToken'
 import dotenv from 'dotenv';
 dotenv.config();
 
@@ -15,12 +24,28 @@ const port = 3000
 app.use(express.json())
 app.use(cors())
 
-app.use("/clientes",      routesClientes)
-app.use("/despesas",      routesDespesas)
+// Cadastro de usuário (POST /usuarios) é a única rota de /usuarios sem token
+function verificaTokenUsuarios(req: Request, res: Response, next: NextFunction) {
+  if (req.method === "POST" && req.path === "/") {
+    return next()
+  }
+  verificaToken(req, res, next)
+}
+
+app.use("/arquivos",      verificaToken, routesArquivos)
+app.use("/categorias",    verificaToken, routesCategorias)
+app.use("/clientes",      verificaToken, routesClientes)
+app.use("/despesas",      verificaToken, routesDespesas)
+app.use("/exportacoes",   verificaToken, routesExportacoes)
+app.use("/fiscal",        verificaToken, routesFiscal)
+app.use("/importacoes",   verificaToken, routesImportacoes)
 app.use("/login",         routesLogins)
-app.use("/produtos",      routesProdutos)
-app.use("/receitas",      routesReceitas)
-app.use("/usuarios",      routesUsuarios)
+app.use("/orcamentos",    verificaToken, routesOrcamentos)
+app.use("/produtos",      verificaToken, routesProdutos)
+app.use("/receitas",      verificaToken, routesReceitas)
+app.use("/recorrencias",  verificaToken, routesRecorrencias)
+app.use("/relatorios",    verificaToken, routesRelatorios)
+app.use("/usuarios",      verificaTokenUsuarios, routesUsuarios)
 
 app.get('/', (req, res) => {
   res.send('API: minharenda')
@@ -0,0 +1,23 @@
+import { PrismaClient } from "@prisma/client"
+import { Request, Response, NextFunction } from "express"
+
+const prisma = new PrismaClient()
+
+// Usar depois do verificaToken: o papel de admin é lido do banco, não do token
+export async function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  try {
+    const usuario = await prisma.usuario.findUnique({
+      where: { id: req.usuarioLogadoId },
+      select: { admin: true, bloqueado: true },
+    })
+
+    if (!usuario || !usuario.admin || usuario.bloqueado) {
+      return res.status(403).json({ erro: "Acesso restrito a administradores" })
+    }
+
+    next()
+  } catch (error) {
+    console.error("Erro ao verificar administrador:", error)
+    res.status(500).json({ erro: "Erro ao verificar permissões" })
+  }
+}
@@ -0,0 +1,62 @@
+import jwt from "jsonwebtoken"
+import { PrismaClient } from "@prisma/client"
+import { Request, Response, NextFunction } from "express"
+
+const prisma = new PrismaClient()
+
+interface TokenPayload {
+  usuarioLogadoId: string
+  usuarioLogadoNome: string
+  sessaoId?: string
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      usuarioLogadoId: string
+      usuarioLogadoNome: string
+      sessaoId?: string
+    }
+  }
+}
+
+// Além da assinatura, confere se a sessão do token não foi encerrada (logout,
+// DELETE /usuarios/me/sessoes/:id ou reuso de refresh token revogam a família)
+export async function verificaToken(req: Request, res: Response, next: NextFunction) {
+  const { authorization } = req.headers
+
+  if (!authorization || !authorization.startsWith("Bearer ")) {
+    return res.status(401).json({ erro: "Token não informado" })
+  }
+
+  const token = authorization.split(" ")[1]
+
+  let decode: TokenPayload
+  try {
+    decode = jwt.verify(token, process.env.JWT_KEY as string) as TokenPayload
+  } catch (error) {
+    return res.status(401).json({ erro: "Token inválido ou expirado" })
+  }
+
+  try {
+    if (decode.sessaoId) {
+      const sessaoAtiva = await prisma.sessao.findFirst({
+        where: { familia: decode.sessaoId, revogadaEm: null },
+        select: { id: true },
+      })
+
+      if (!sessaoAtiva) {
+        return res.status(401).json({ erro: "Sessão encerrada" })
+      }
+    }
+  } catch (error) {
+    console.error("Erro ao verificar sessão:", error)
+    return res.status(500).json({ erro: "Erro ao verificar sessão" })
+  }
+
+  req.usuarioLogadoId = decode.usuarioLogadoId
+  req.usuarioLogadoNome = decode.usuarioLogadoNome
+  req.sessaoId = decode.sessaoId
+
+  next()
+}
@@ -0,0 +1,197 @@
+import { PrismaClient } from "@prisma/client";
+import express, { Router, Request, Response, NextFunction } from "express";
+import { randomUUID } from "crypto";
+import { z } from "zod";
+import { boundaryDe, lerMultipart } from "../utils/multipart";
+import { driverPadrao, obterArmazenamento } from "../utils/armazenamento";
+import { TAMANHO_MAXIMO_ARQUIVO, TIPOS_ACEITOS, identificarTipo, removerDoArmazenamento } from "../utils/arquivos";
+
+const prisma = new PrismaClient();
+const router = Router();
+
+// O arquivo pertence a exatamente um registro: ?receitaId=, ?despesaId= ou ?produtoId=
+const vinculoSchema = z
+  .object({
+    receitaId: z.coerce.number().int().positive().optional(),
+    despesaId: z.coerce.number().int().positive().optional(),
+    produtoId: z.coerce.number().int().positive().optional(),
+  })
+  .refine((v) => [v.receitaId, v.despesaId, v.produtoId].filter((id) => id != null).length === 1, {
+    message: "Informe um (e só um) de receitaId, despesaId ou produtoId",
+  });
+
+type Vinculo = z.infer<typeof vinculoSchema>;
+
+// chave e armazenamento são detalhes internos, não saem na API
+const camposPublicos = {
+  id: true,
+  nome: true,
+  tipo: true,
+  tamanho: true,
+  createdAt: true,
+  receitaId: true,
+  despesaId: true,
+  produtoId: true,
+} as const;
+
+async function registroPertenceAoUsuario(vinculo: Vinculo, usuarioId: string) {
+  const where = { usuarioId };
+
+  if (vinculo.receitaId != null) {
+    return !!(await prisma.receita.findFirst({ where: { ...where, id: vinculo.receitaId }, select: { id: true } }));
+  }
+  if (vinculo.despesaId != null) {
+    return !!(await prisma.despesa.findFirst({ where: { ...where, id: vinculo.despesaId }, select: { id: true } }));
+  }
+  return !!(await prisma.produto.findFirst({ where: { ...where, id: vinculo.produtoId }, select: { id: true } }));
+}
+
+/**
+ * POST /arquivos?receitaId=|despesaId=|produtoId=
+ * Upload multipart/form-data com o arquivo no campo "arquivo". Aceita imagens
+ * (JPEG, PNG, GIF, WebP) e PDF, conferidos pelo conteúdo, até
+ * ARQUIVO_TAMANHO_MAXIMO_MB (padrão 5 MB).
+ */
+router.post(
+  "/",
+  // Folga para os cabeçalhos do multipart; o tamanho do arquivo é conferido abaixo
+  express.raw({ type: "multipart/form-data", limit: TAMANHO_MAXIMO_ARQUIVO + 64 * 1024 }),
+  async (req, res) => {
+    const usuarioId = req.usuarioLogadoId;
+
+    const parseResult = vinculoSchema.safeParse(req.query);
+    if (!parseResult.success) {
+      return res.status(400).json({ erro: parseResult.error.flatten() });
+    }
+    const vinculo = parseResult.data;
+
+    const boundary = boundaryDe(req.headers["content-type"]);
+    if (!boundary || !Buffer.isBuffer(req.body)) {
+      return res.status(400).json({ erro: "Envie o arquivo como multipart/form-data no campo arquivo" });
+    }
+
+    const parte = lerMultipart(req.body, boundary).find((p) => p.campo === "arquivo" && p.nomeArquivo != null);
+    if (!parte || parte.conteudo.length === 0) {
+      return res.status(400).json({ erro: "Envie o arquivo como multipart/form-data no campo arquivo" });
+    }
+
+    if (parte.conteudo.length > TAMANHO_MAXIMO_ARQUIVO) {
+      return res.status(413).json({ erro: "Arquivo muito grande", tamanhoMaximo: TAMANHO_MAXIMO_ARQUIVO });
+    }
+
+    const identificado = identificarTipo(parte.conteudo);
+    if (!identificado) {
+      return res.status(415).json({ erro: "Tipo de arquivo não aceito", tiposAceitos: TIPOS_ACEITOS });
+    }
+
+    try {
+      if (!(await registroPertenceAoUsuario(vinculo, usuarioId))) {
+        return res.status(404).json({ erro: "Registro não encontrado" });
+      }
+
+      const armazenamento = driverPadrao();
+      const chave = `${usuarioId}/${randomUUID()}.${identificado.extensao}`;
+
+      await obterArmazenamento(armazenamento).salvar(chave, parte.conteudo, identificado.tipo);
+
+      try {
+        const arquivo = await prisma.arquivo.create({
+          data: {
+            ...vinculo,
+            nome: parte.nomeArquivo!.slice(0, 255),
+            tipo: identificado.tipo,
+            tamanho: parte.conteudo.length,
+            chave,
+            armazenamento,
+            usuarioId,
+          },
+          select: camposPublicos,
+        });
+        res.status(201).json(arquivo);
+      } catch (error) {
+        // Sem a linha no banco o arquivo gravado ficaria órfão
+        await removerDoArmazenamento([{ chave, armazenamento }]);
+        throw error;
+      }
+    } catch (error) {
+      console.error("Erro ao enviar arquivo:", error);
+      res.status(500).json({ erro: "Erro ao enviar arquivo" });
+    }
+  }
+);
+
+// GET /arquivos?receitaId=|despesaId=|produtoId=
+router.get("/", async (req, res) => {
+  const parseResult = vinculoSchema.safeParse(req.query);
+  if (!parseResult.success) {
+    return res.status(400).json({ erro: parseResult.error.flatten() });
+  }
+
+  try {
+    const arquivos = await prisma.arquivo.findMany({
+      where: { ...parseResult.data, usuarioId: req.usuarioLogadoId },
+      select: camposPublicos,
+      orderBy: { createdAt: "asc" },
+    });
+    res.status(200).json(arquivos);
+  } catch (error) {
+    console.error("Erro ao listar arquivos:", error);
+    res.status(500).json({ erro: "Erro ao listar arquivos" });
+  }
+});
+
+/**
+ * GET /arquivos/:id
+ * Conteúdo do arquivo, só para o dono. O Content-Type é o identificado no
+ * upload, nunca o informado pelo cliente.
+ */
+router.get("/:id", async (req, res) => {
+  try {
+    const arquivo = await prisma.arquivo.findFirst({
+      where: { id: req.params.id, usuarioId: req.usuarioLogadoId },
+    });
+
+    if (!arquivo) {
+      return res.status(404).json({ erro: "Arquivo não encontrado" });
+    }
+
+    const conteudo = await obterArmazenamento(arquivo.armazenamento).ler(arquivo.chave);
+
+    res.setHeader("Content-Type", arquivo.tipo);
+    res.setHeader("Content-Length", conteudo.length);
+    res.setHeader("Content-Disposition", `inline; filename*=UTF-8''${encodeURIComponent(arquivo.nome)}`);
+    res.setHeader("X-Content-Type-Options", "nosniff");
+    res.setHeader("Cache-Control", "private, no-store");
+    res.status(200).send(conteudo);
+  } catch (error) {
+    console.error("Erro ao baixar arquivo:", error);
+    res.status(500).json({ erro: "Erro ao baixar arquivo" });
+  }
+});
+
+router.delete("/:id", async (req, res) => {
+  try {
+    const arquivo = await prisma.arquivo.delete({
+      where: { id: req.params.id, usuarioId: req.usuarioLogadoId },
+    });
+
+    await removerDoArmazenamento([arquivo]);
+    res.status(204).send();
+  } catch (error: any) {
+    if (error.code === "P2025") {
+      return res.status(404).json({ erro: "Arquivo não encontrado" });
+    }
+    console.error("Erro ao excluir arquivo:", error);
+    res.status(500).json({ erro: "Erro ao excluir arquivo" });
+  }
+});
+
+// Corpo acima do limite do express.raw chega aqui antes da rota
+router.use((error: any, req: Request, res: Response, next: NextFunction) => {
+  if (error?.type === "entity.too.large") {
+    return res.status(413).json({ erro: "Arquivo muito grande", tamanhoMaximo: TAMANHO_MAXIMO_ARQUIVO });
+  }
+  next(error);
+});
+
+export default router;
@@ -0,0 +1,265 @@
+import { PrismaClient, Tipo_Lancamento } from "@prisma/client";
+import { Router } from "express";
+import { z } from "zod";
+import { chaveDaCategoria, migrarCategoriasLegadas, sincronizarNomeCategoria } from "../utils/categorias";
+
+const prisma = new PrismaClient();
+const router = Router();
+
+const categoriaSchema = z.object({
+  nome: z
+    .string()
+    .transform((nome) => nome.trim().replace(/\s+/g, " "))
+    .pipe(z.string().min(2, { message: "Nome deve ter no mínimo 2 caracteres" })),
+  tipo: z.nativeEnum(Tipo_Lancamento),
+  cor: z
+    .string()
+    .regex(/^#[0-9a-fA-F]{6}$/, { message: "Use a cor no formato #RRGGBB" })
+    .optional()
+    .nullable(),
+  icone: z.string().max(50).optional().nullable(),
+  paiId: z.coerce.number().int().positive().optional().nullable(),
+});
+
+const mesclagemSchema = z.object({
+  destinoId: z.coerce.number().int().positive(),
+});
+
+const migracaoSchema = z.object({
+  aplicar: z.boolean().default(false),
+});
+
+type DadosCategoria = z.infer<typeof categoriaSchema>;
+
+/**
+ * Regras comuns de criação e edição: pai do mesmo usuário e tipo, só um nível de
+ * subcategoria e nome sem repetir entre irmãs. Devolve a mensagem de erro ou null.
+ */
+async function validarCategoria(usuarioId: string, dados: DadosCategoria, id?: number) {
+  if (dados.paiId != null) {
+    if (dados.paiId === id) {
+      return "Uma categoria não pode ser subcategoria dela mesma";
+    }
+
+    const pai = await prisma.categoria.findFirst({
+      where: { id: dados.paiId, usuarioId },
+      select: { tipo: true, paiId: true },
+    });
+
+    if (!pai) return "Categoria pai não encontrada";
+    if (pai.tipo !== dados.tipo) return "A categoria pai deve ser do mesmo tipo";
+    if (pai.paiId != null) return "Subcategorias não podem ter subcategorias";
+
+    if (id != null && (await prisma.categoria.count({ where: { paiId: id } })) > 0) {
+      return "Uma categoria com subcategorias não pode virar subcategoria";
+    }
+  }
+
+  const irmas = await prisma.categoria.findMany({
+    where: { usuarioId, tipo: dados.tipo, paiId: dados.paiId ?? null, id: id != null ? { not: id } : undefined },
+    select: { nome: true },
+  });
+
+  if (irmas.some((irma) => chaveDaCategoria(irma.nome) === chaveDaCategoria(dados.nome))) {
+    return "Já existe uma categoria com esse nome";
+  }
+
+  return null;
+}
+
+/**
+ * GET /categorias?tipo=RECEITA|DESPESA
+ * Categorias principais do usuário com as subcategorias dentro
+ */
+router.get("/", async (req, res) => {
+  const tipo = z.nativeEnum(Tipo_Lancamento).optional().safeParse(req.query.tipo);
+  if (!tipo.success) {
+    return res.status(400).json({ erro: tipo.error.flatten() });
+  }
+
+  try {
+    const categorias = await prisma.categoria.findMany({
+      where: { usuarioId: req.usuarioLogadoId, tipo: tipo.data, paiId: null },
+      include: { filhas: { orderBy: { nome: "asc" } } },
+      orderBy: { nome: "asc" },
+    });
+    res.status(200).json(categorias);
+  } catch (error) {
+    console.error("Erro ao listar categorias:", error);
+    res.status(500).json({ erro: "Erro ao listar categorias" });
+  }
+});
+
+/**
+ * POST /categorias/migrar
+ * Cria categorias a partir dos textos livres já usados em receitas e despesas.
+ * Com { aplicar: false } (padrão) só mostra o que seria criado e vinculado.
+ */
+router.post("/migrar", async (req, res) => {
+  const parseResult = migracaoSchema.safeParse(req.body ?? {});
+  if (!parseResult.success) {
+    return res.status(400).json({ erro: parseResult.error.flatten() });
+  }
+
+  try {
+    const resultado = await migrarCategoriasLegadas(req.usuarioLogadoId, parseResult.data.aplicar);
+    res.status(200).json(resultado);
+  } catch (error) {
+    console.error("Erro ao migrar categorias:", error);
+    res.status(500).json({ erro: "Erro ao migrar categorias" });
+  }
+});
+
+router.post("/", async (req, res) => {
+  const parseResult = categoriaSchema.safeParse(req.body);
+  if (!parseResult.success) {
+    return res.status(400).json({ erro: parseResult.error.flatten() });
+  }
+
+  const dados = parseResult.data;
+
+  try {
+    const erro = await validarCategoria(req.usuarioLogadoId, dados);
+    if (erro) {
+      return res.status(400).json({ erro });
+    }
+
+    const categoria = await prisma.categoria.create({
+      data: { ...dados, usuarioId: req.usuarioLogadoId },
+    });
+    res.status(201).json(categoria);
+  } catch (error) {
+    console.error("Erro ao criar categoria:", error);
+    res.status(400).json({ erro: "Erro ao criar categoria" });
+  }
+});
+
+// Renomear atualiza o nome copiado nas receitas/despesas da categoria
+router.put("/:id", async (req, res) => {
+  const { id } = req.params;
+
+  const parseResult = categoriaSchema.safeParse(req.body);
+  if (!parseResult.success) {
+    return res.status(400).json({ erro: parseResult.error.flatten() });
+  }
+
+  const dados = parseResult.data;
+
+  try {
+    const atual = await prisma.categoria.findFirst({
+      where: { id: Number(id), usuarioId: req.usuarioLogadoId },
+    });
+
+    if (!atual) {
+      return res.status(404).json({ erro: "Categoria não encontrada" });
+    }
+
+    if (atual.tipo !== dados.tipo) {
+      return res.status(400).json({ erro: "Não é possível mudar o tipo de uma categoria" });
+    }
+
+    const erro = await validarCategoria(req.usuarioLogadoId, dados, atual.id);
+    if (erro) {
+      return res.status(400).json({ erro });
+    }
+
+    const categoria = await prisma.$transaction(async (transacao) => {
+      const atualizada = await transacao.categoria.update({
+        where: { id: atual.id },
+        data: dados,
+      });
+
+      if (atualizada.nome !== atual.nome) {
+        await sincronizarNomeCategoria(transacao, atual.id, atualizada.nome);
+      }
+
+      return atualizada;
+    });
+
+    res.status(200).json(categoria);
+  } catch (error) {
+    console.error("Erro ao atualizar categoria:", error);
+    res.status(400).json({ erro: "Erro ao atualizar categoria" });
+  }
+});
+
+/**
+ * POST /categorias/:id/mesclar
+ * Move receitas, despesas e subcategorias para a categoria destino e apaga esta.
+ */
+router.post("/:id/mesclar", async (req, res) => {
+  const { id } = req.params;
+
+  const parseResult = mesclagemSchema.safeParse(req.body);
+  if (!parseResult.success) {
+    return res.status(400).json({ erro: parseResult.error.flatten() });
+  }
+
+  const { destinoId } = parseResult.data;
+  const usuarioId = req.usuarioLogadoId;
+
+  if (destinoId === Number(id)) {
+    return res.status(400).json({ erro: "Escolha outra categoria como destino" });
+  }
+
+  try {
+    const [origem, destino] = await Promise.all([
+      prisma.categoria.findFirst({ where: { id: Number(id), usuarioId } }),
+      prisma.categoria.findFirst({ where: { id: destinoId, usuarioId } }),
+    ]);
+
+    if (!origem || !destino) {
+      return res.status(404).json({ erro: "Categoria não encontrada" });
+    }
+
+    if (origem.tipo !== destino.tipo) {
+      return res.status(400).json({ erro: "Só é possível mesclar categorias do mesmo tipo" });
+    }
+
+    if (destino.paiId === origem.id) {
+      return res.status(400).json({ erro: "Não é possível mesclar uma categoria em uma subcategoria dela" });
+    }
+
+    const resultado = await prisma.$transaction(async (transacao) => {
+      const dados = { categoriaId: destino.id, categoria: destino.nome };
+
+      const receitas = await transacao.receita.updateMany({ where: { categoriaId: origem.id }, data: dados });
+      const despesas = await transacao.despesa.updateMany({ where: { categoriaId: origem.id }, data: dados });
+
+      // Subcategorias sobem para o destino; se o destino já é subcategoria, viram irmãs dele
+      await transacao.categoria.updateMany({
+        where: { paiId: origem.id },
+        data: { paiId: destino.paiId ?? destino.id },
+      });
+
+      await transacao.categoria.delete({ where: { id: origem.id } });
+
+      return { receitasMovidas: receitas.count, despesasMovidas: despesas.count };
+    });
+
+    res.status(200).json({ destino, ...resultado });
+  } catch (error) {
+    console.error("Erro ao mesclar categorias:", error);
+    res.status(400).json({ erro: "Erro ao mesclar categorias" });
+  }
+});
+
+// Receitas/despesas da categoria excluída mantêm o nome, só perdem o vínculo
+router.delete("/:id", async (req, res) => {
+  const { id } = req.params;
+
+  try {
+    const categoria = await prisma.categoria.delete({
+      where: { id: Number(id), usuarioId: req.usuarioLogadoId },
+    });
+    res.status(200).json(categoria);
+  } catch (error: any) {
+    if (error.code === "P2025") {
+      return res.status(404).json({ erro: "Categoria não encontrada" });
+    }
+    console.error("Erro ao excluir categoria:", error);
+    res.status(400).json({ erro: "Erro ao excluir categoria" });
+  }
+});
+
+export default router;
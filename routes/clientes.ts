@@ -1,6 +1,18 @@
 import { PrismaClient } from "@prisma/client";
 import { Router } from "express";
 import { z } from "zod";
+import { requireAdmin } from "../middlewares/requireAdmin";
+import { serializarUsuario } from "../utils/serializarUsuario";
+import { verificarLimitePlano } from "../utils/planos";
+import { hojeComoData, periodoSchema, resolverPeriodo } from "../utils/periodo";
+import { saldoDaReceita } from "../utils/fiado";
+import {
+  filtroClientesSchema,
+  intervaloDoFiltro,
+  whereClientes,
+  argsPaginacao,
+  montarPagina,
+} from "../utils/filtros";
 
 const prisma = new PrismaClient();
 const router = Router();
@@ -10,11 +22,34 @@ const clienteSchema = z.object({
   notas: z.string().optional().nullable(),
   endereco: z.string().optional().nullable(),
   telefone: z.string().optional().nullable(),
-  // no teu schema usuarioId é String (uuid)
-  usuarioId: z.string(),
 });
 
-function clienteInfosAdicionais(cliente: any) {
+// Saldo fiado das receitas (com pagamentos); `hoje` decide o que já está vencido
+function resumoFiado(receitas: any[], hoje: Date) {
+  let saldoEmAberto = 0;
+  let saldoVencido = 0;
+  let vencimentoMaisAntigo: Date | null = null;
+
+  for (const receita of receitas) {
+    const saldo = saldoDaReceita(receita, hoje);
+    saldoEmAberto += saldo.saldoEmAberto;
+
+    if (saldo.vencida) {
+      saldoVencido += saldo.saldoEmAberto;
+      if (!vencimentoMaisAntigo || receita.vencimento < vencimentoMaisAntigo) {
+        vencimentoMaisAntigo = receita.vencimento;
+      }
+    }
+  }
+
+  return {
+    saldoEmAberto: Number(saldoEmAberto.toFixed(2)),
+    saldoVencido: Number(saldoVencido.toFixed(2)),
+    vencimentoMaisAntigo,
+  };
+}
+
+function clienteInfosAdicionais(cliente: any, hoje: Date) {
   const receitasDoCliente = Array.isArray(cliente.receitas)
     ? cliente.receitas
     : [];
@@ -31,16 +66,26 @@ function clienteInfosAdicionais(cliente: any) {
 
   return {
     ...cliente,
+    ...(cliente.usuario && { usuario: serializarUsuario(cliente.usuario) }),
     totalGasto,
     totalCompras,
+    ...resumoFiado(receitasDoCliente, hoje),
   };
 }
 
+async function hojeDoUsuario(usuarioId: string) {
+  const usuario = await prisma.usuario.findUniqueOrThrow({
+    where: { id: usuarioId },
+    select: { fusoHorario: true },
+  });
+  return hojeComoData(usuario.fusoHorario);
+}
+
 /**
  * GET /clientes
- * Lista todos os clientes (independente de usuário)
+ * Lista todos os clientes (independente de usuário). Somente admin.
  */
-router.get("/", async (req, res) => {
+router.get("/", requireAdmin, async (req, res) => {
   try {
     const clientes = await prisma.cliente.findMany({
       include: {
@@ -52,13 +97,16 @@ router.get("/", async (req, res) => {
                 produto: true,
               },
             },
+            pagamentos: true,
           },
         },
       },
       orderBy: { updatedAt: "desc" },
     });
 
-    const clientesComTotais = clientes.map(clienteInfosAdicionais);
+    const clientesComTotais = clientes.map((cliente) =>
+      clienteInfosAdicionais(cliente, hojeComoData(cliente.usuario.fusoHorario))
+    );
 
     res.status(200).json(clientesComTotais);
   } catch (error) {
@@ -72,7 +120,7 @@ router.get("/", async (req, res) => {
  * Dashboard de clientes para um usuário específico
  */
 router.get("/dashboard/:usuarioId", async (req, res) => {
-  const { usuarioId } = req.params;
+  const usuarioId = req.usuarioLogadoId;
 
   try {
     const clientes = await prisma.cliente.findMany({
@@ -85,13 +133,15 @@ router.get("/dashboard/:usuarioId", async (req, res) => {
                 produto: true,
               },
             },
+            pagamentos: true,
           },
         },
       },
       orderBy: { updatedAt: "desc" },
     });
 
-    const clientesComTotais = clientes.map(clienteInfosAdicionais);
+    const hoje = await hojeDoUsuario(usuarioId);
+    const clientesComTotais = clientes.map((cliente) => clienteInfosAdicionais(cliente, hoje));
 
     const totalClientes = clientesComTotais.length;
     const totalGastoGeral = clientesComTotais.reduce(
@@ -103,10 +153,28 @@ router.get("/dashboard/:usuarioId", async (req, res) => {
       0
     );
 
+    const totalAReceber = clientesComTotais.reduce(
+      (acc: number, c: any) => acc + c.saldoEmAberto,
+      0
+    );
+    const clientesComSaldoVencido = clientesComTotais
+      .filter((c: any) => c.saldoVencido > 0)
+      .sort((a: any, b: any) => b.saldoVencido - a.saldoVencido)
+      .map((c: any) => ({
+        id: c.id,
+        nome: c.nome,
+        telefone: c.telefone,
+        saldoEmAberto: c.saldoEmAberto,
+        saldoVencido: c.saldoVencido,
+        vencimentoMaisAntigo: c.vencimentoMaisAntigo,
+      }));
+
     res.status(200).json({
       totalClientes,
       totalGastoGeral,
       totalComprasGeral,
+      totalAReceber: Number(totalAReceber.toFixed(2)),
+      clientesComSaldoVencido,
       clientes: clientesComTotais,
     });
   } catch (error) {
@@ -117,34 +185,69 @@ router.get("/dashboard/:usuarioId", async (req, res) => {
 
 /**
  * GET /clientes/:usuarioId
- * Lista clientes de um usuário específico
+ * Lista clientes do usuário logado (o :usuarioId da rota é ignorado,
+ * o usuário vem do token)
  */
 router.get("/:usuarioId", async (req, res) => {
-  const { usuarioId } = req.params; // string (uuid)
+  const usuarioId = req.usuarioLogadoId;
+
+  const parseResult = filtroClientesSchema.safeParse(req.query);
+  if (!parseResult.success) {
+    return res.status(400).json({ erro: parseResult.error.flatten() });
+  }
+
+  const filtro = parseResult.data;
 
   try {
-    const clientes = await prisma.cliente.findMany({
-      where: {
-        usuarioId, // aqui é string MESMO, nada de Number()
-      },
-      include: {
-        usuario: true,
-        receitas: {
-          include: {
-            itens: {
-              include: {
-                produto: true,
+    const intervalo = await intervaloDoFiltro(usuarioId, filtro);
+    const where = whereClientes(usuarioId, filtro, intervalo);
+
+    const [clientes, total] = await Promise.all([
+      prisma.cliente.findMany({
+        where,
+        ...argsPaginacao(filtro, filtro.ordenarPor),
+        include: {
+          usuario: filtro.expand.includes("usuario"),
+          receitas: filtro.expand.includes("receitas") && {
+            include: {
+              itens: {
+                include: {
+                  produto: true,
+                },
               },
             },
           },
         },
-      },
-      orderBy: { updatedAt: "desc" },
+      }),
+      prisma.cliente.count({ where }),
+    ]);
+
+    // Totais calculados no banco, sem depender de expand=receitas
+    const [totaisPorCliente, vendasFiado, hoje] = await Promise.all([
+      prisma.receita.groupBy({
+        by: ["clienteId"],
+        where: { usuarioId, clienteId: { in: clientes.map((c) => c.id) } },
+        _sum: { valor: true },
+        _count: { _all: true },
+      }),
+      prisma.receita.findMany({
+        where: { usuarioId, aPrazo: true, clienteId: { in: clientes.map((c) => c.id) } },
+        include: { pagamentos: { select: { valor: true } } },
+      }),
+      hojeDoUsuario(usuarioId),
+    ]);
+
+    const pagina = montarPagina(clientes, total, filtro.limite, (cliente) => {
+      const totais = totaisPorCliente.find((t) => t.clienteId === cliente.id);
+      return {
+        ...clienteInfosAdicionais(cliente, hoje),
+        totalGasto: Number(totais?._sum.valor ?? 0),
+        totalCompras: totais?._count._all ?? 0,
+        ...resumoFiado(vendasFiado.filter((r) => r.clienteId === cliente.id), hoje),
+      };
     });
 
-    const clientesComTotais = clientes.map(clienteInfosAdicionais);
-
-    res.status(200).json(clientesComTotais);
+    res.status(200).json(pagina);
   } catch (error) {
     console.error("Erro ao buscar clientes por usuário:", error);
     res.status(500).json({ erro: "Erro ao buscar clientes por usuário" });
@@ -162,16 +265,22 @@ router.post("/", async (req, res) => {
     return res.status(400).json({ erro: parseResult.error.flatten() });
   }
 
-  const { nome, notas, endereco, telefone, usuarioId } = parseResult.data;
+  const { nome, notas, endereco, telefone } = parseResult.data;
+  const usuarioId = req.usuarioLogadoId;
 
   try {
+    const limiteAtingido = await verificarLimitePlano(usuarioId, "clientes");
+    if (limiteAtingido) {
+      return res.status(402).json(limiteAtingido);
+    }
+
     const novoCliente = await prisma.cliente.create({
       data: {
         nome,
         notas: notas ?? null,
         endereco: endereco ?? null,
         telefone: telefone ?? null,
-        usuarioId, // string uuid
+        usuarioId,
       },
       include: {
         usuario: true,
@@ -187,7 +296,7 @@ router.post("/", async (req, res) => {
       },
     });
 
-    const clienteComTotais = clienteInfosAdicionais(novoCliente);
+    const clienteComTotais = clienteInfosAdicionais(novoCliente, hojeComoData(novoCliente.usuario.fusoHorario));
 
     res.status(201).json(clienteComTotais);
   } catch (error) {
@@ -197,7 +306,7 @@ router.post("/", async (req, res) => {
   
 });
 router.get("/top/10/:usuarioId", async (req, res) => {
-  const { usuarioId } = req.params;
+  const usuarioId = req.usuarioLogadoId;
 
   try {
     const clientes = await prisma.cliente.findMany({
@@ -237,6 +346,97 @@ router.get("/top/10/:usuarioId", async (req, res) => {
   }
 });
 
+/**
+ * GET /clientes/:id/extrato?periodo=&de=&ate=
+ * Extrato do cliente: compras e pagamentos em ordem de data com o saldo
+ * devedor acumulado. Compras à vista aparecem mas não mexem no saldo.
+ */
+router.get("/:id/extrato", async (req, res) => {
+  const { id } = req.params;
+  const usuarioId = req.usuarioLogadoId;
+
+  const parseResult = periodoSchema.safeParse(req.query);
+  if (!parseResult.success) {
+    return res.status(400).json({ erro: parseResult.error.flatten() });
+  }
+
+  try {
+    const cliente = await prisma.cliente.findFirst({
+      where: { id: Number(id), usuarioId },
+      include: {
+        usuario: { select: { fusoHorario: true } },
+        receitas: { include: { pagamentos: true } },
+      },
+    });
+
+    if (!cliente) {
+      return res.status(404).json({ erro: "Cliente não encontrado" });
+    }
+
+    const periodo = resolverPeriodo(parseResult.data, cliente.usuario.fusoHorario);
+
+    const compras = cliente.receitas.map((receita) => ({
+      tipo: "COMPRA" as const,
+      data: receita.data,
+      descricao: receita.descricao,
+      receitaId: receita.id,
+      pagamentoId: null,
+      aPrazo: receita.aPrazo,
+      vencimento: receita.vencimento,
+      valor: Number(receita.valor),
+    }));
+
+    const pagamentos = cliente.receitas.flatMap((receita) =>
+      receita.pagamentos.map((pagamento) => ({
+        tipo: "PAGAMENTO" as const,
+        data: pagamento.data,
+        descricao: pagamento.observacao,
+        receitaId: receita.id,
+        pagamentoId: pagamento.id,
+        aPrazo: true,
+        vencimento: null,
+        valor: Number(pagamento.valor),
+      }))
+    );
+
+    // No mesmo instante a compra vem antes do pagamento
+    const movimentos = [...compras, ...pagamentos].sort(
+      (a, b) => a.data.getTime() - b.data.getTime() || (a.tipo === "COMPRA" ? -1 : 1)
+    );
+
+    const efeito = (m: (typeof movimentos)[number]) =>
+      m.tipo === "PAGAMENTO" ? -m.valor : m.aPrazo ? m.valor : 0;
+
+    let saldo = 0;
+    let saldoAnterior = 0;
+    const lancamentos = [];
+
+    for (const movimento of movimentos) {
+      if (periodo && movimento.data >= periodo.fim) break;
+
+      saldo = Number((saldo + efeito(movimento)).toFixed(2));
+
+      if (periodo && movimento.data < periodo.inicio) {
+        saldoAnterior = saldo;
+        continue;
+      }
+
+      lancamentos.push({ ...movimento, saldo });
+    }
+
+    res.status(200).json({
+      cliente: { id: cliente.id, nome: cliente.nome, telefone: cliente.telefone },
+      periodo: periodo && { inicio: periodo.inicio, fim: periodo.fim },
+      saldoAnterior,
+      lancamentos,
+      saldoFinal: saldo,
+    });
+  } catch (error) {
+    console.error("Erro ao gerar extrato do cliente:", error);
+    res.status(500).json({ erro: "Erro ao gerar extrato do cliente" });
+  }
+});
+
 /**
  * PUT /clientes/:id
  * Atualiza um cliente
@@ -249,17 +449,17 @@ router.put("/:id", async (req, res) => {
     return res.status(400).json({ erro: parseResult.error.flatten() });
   }
 
-  const { nome, notas, endereco, telefone, usuarioId } = parseResult.data;
+  const { nome, notas, endereco, telefone } = parseResult.data;
 
   try {
     const cliente = await prisma.cliente.update({
-      where: { id: Number(id) }, // id do cliente é Int (autoincrement)
+      // id do cliente é Int (autoincrement); só atualiza se for do usuário logado
+      where: { id: Number(id), usuarioId: req.usuarioLogadoId },
       data: {
         nome,
         notas: notas ?? null,
         endereco: endereco ?? null,
         telefone: telefone ?? null,
-        usuarioId, // continua string
       },
       include: {
         usuario: true,
@@ -270,15 +470,19 @@ router.put("/:id", async (req, res) => {
                 produto: true,
               },
             },
+            pagamentos: true,
           },
         },
       },
     });
 
-    const clienteComTotais = clienteInfosAdicionais(cliente);
+    const clienteComTotais = clienteInfosAdicionais(cliente, hojeComoData(cliente.usuario.fusoHorario));
 
     res.status(200).json(clienteComTotais);
-  } catch (error) {
+  } catch (error: any) {
+    if (error.code === "P2025") {
+      return res.status(404).json({ erro: "Cliente não encontrado" });
+    }
     console.error("Erro ao atualizar cliente:", error);
     res.status(400).json({ erro: "Erro ao atualizar cliente" });
   }
@@ -289,10 +493,13 @@ router.delete("/:id", async (req, res) => {
 
   try {
     const cliente = await prisma.cliente.delete({
-      where: { id: Number(id) },
+      where: { id: Number(id), usuarioId: req.usuarioLogadoId },
     });
     res.status(200).json(cliente);
-  } catch (error) {
+  } catch (error: any) {
+    if (error.code === "P2025") {
+      return res.status(404).json({ erro: "Cliente não encontrado" });
+    }
     console.error("Erro ao excluir cliente:", error);
     res.status(400).json({ erro: "Erro ao excluir cliente" });
   }
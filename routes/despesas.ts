@@ -1,6 +1,23 @@
-import { PrismaClient } from '@prisma/client'
+import { PrismaClient, Prisma } from '@prisma/client'
 import { Router } from 'express'
 import { z } from 'zod'
+import { hojeComoData } from '../utils/periodo'
+import {
+  STATUS_EM_ABERTO,
+  atualizarAtrasadas,
+  statusEmAberto,
+  valorEmAberto,
+} from '../utils/contasPagar'
+import { resolverCategoria } from '../utils/categorias'
+import { alertasDaDespesa } from '../utils/orcamentos'
+import { removerDoArmazenamento } from '../utils/arquivos'
+import {
+  filtroDespesasSchema,
+  intervaloDoFiltro,
+  whereDespesas,
+  argsPaginacao,
+  montarPagina,
+} from '../utils/filtros'
 
 const prisma = new PrismaClient()
 const router = Router()
@@ -17,40 +34,157 @@ const despesaSchema = z.object({
     .min(2, { message: "Nome da categoria deve possuir, no mínimo, 2 caracteres" })
     .optional()
     .or(z.literal("")),
+  // Preferível ao nome livre: categoria cadastrada em /categorias
+  categoriaId: z.coerce.number().int().positive().optional(),
   anexo: z
     .string()
     .url()
     .optional()
     .or(z.literal("")),
   data: z.coerce.date(),
-  usuarioId: z.string(),
+  vencimento: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, { message: "Use o formato AAAA-MM-DD" })
+    .transform((valor) => new Date(`${valor}T00:00:00.000Z`))
+    .optional(),
+  // ATRASADA não é informada: sai do vencimento
+  status: z.enum(["PENDENTE", "PAGA"]).optional(),
+  dataPagamento: z.coerce.date().optional(),
+}).refine((dados) => dados.status !== "PENDENTE" || dados.vencimento, {
+  message: "Despesa pendente precisa de vencimento",
+  path: ["vencimento"],
+})
+
+const pagamentoSchema = z.object({
+  // Sem valor, quita o que falta
+  valor: z.coerce.number().positive({ message: "Valor deve ser positivo" }).optional(),
+  dataPagamento: z.coerce.date().optional(),
 })
 
+type DadosDespesa = z.infer<typeof despesaSchema>
+
+// Edição recusada dentro da transação (valor abaixo do já pago)
+class AtualizacaoInvalidaError extends Error {}
+
+async function fusoDoUsuario(usuarioId: string) {
+  const usuario = await prisma.usuario.findUniqueOrThrow({
+    where: { id: usuarioId },
+    select: { fusoHorario: true },
+  })
+  return usuario.fusoHorario
+}
+
+// Sem status explícito: com vencimento e sem data de pagamento é conta a pagar
+function dadosDeQuitacao(dados: DadosDespesa, fuso: string) {
+  const emAberto = dados.status
+    ? dados.status === "PENDENTE"
+    : !!dados.vencimento && !dados.dataPagamento
+
+  if (emAberto && dados.vencimento) {
+    return {
+      vencimento: dados.vencimento,
+      status: statusEmAberto(dados.vencimento, fuso),
+      dataPagamento: null,
+    }
+  }
+
+  return {
+    vencimento: dados.vencimento ?? null,
+    status: "PAGA" as const,
+    dataPagamento: dados.dataPagamento ?? dados.data,
+    valorPago: null,
+  }
+}
+
 
 router.get("/", async (req, res) => {
   try {
-    const despesas = await prisma.despesa.findMany()
+    const despesas = await prisma.despesa.findMany({
+      where: { usuarioId: req.usuarioLogadoId },
+    })
     res.status(200).json(despesas)
   } catch (error) {
     res.status(500).json({ erro: error })
   }
 })
 
-router.get("/:usuarioId", async (req, res) => {
-  const { usuarioId } = req.params
+/**
+ * GET /despesas/a-pagar
+ * Despesas em aberto agrupadas em atrasadas, vencendo nesta semana (até sábado)
+ * e no restante do mês. Valores já descontam pagamentos parciais.
+ */
+router.get("/a-pagar", async (req, res) => {
+  const usuarioId = req.usuarioLogadoId
+
   try {
+    const fuso = await fusoDoUsuario(usuarioId)
+    await atualizarAtrasadas(usuarioId, fuso)
+
+    const hoje = hojeComoData(fuso)
+    const ano = hoje.getUTCFullYear()
+    const mes = hoje.getUTCMonth()
+    const fimDaSemana = new Date(Date.UTC(ano, mes, hoje.getUTCDate() + 6 - hoje.getUTCDay()))
+    const fimDoMes = new Date(Date.UTC(ano, mes + 1, 0))
+
     const despesas = await prisma.despesa.findMany({
-      where: { usuarioId },
-      orderBy: { createdAt: 'desc' }
+      where: {
+        usuarioId,
+        status: { in: STATUS_EM_ABERTO },
+        vencimento: { lte: fimDoMes > fimDaSemana ? fimDoMes : fimDaSemana },
+      },
+      orderBy: [{ vencimento: "asc" }, { id: "asc" }],
     })
-    res.status(200).json(despesas)
+
+    const grupo = (lista: typeof despesas) => ({
+      total: Number(lista.reduce((acc, d) => acc + valorEmAberto(d), 0).toFixed(2)),
+      quantidade: lista.length,
+      despesas: lista.map((d) => ({ ...d, valorEmAberto: valorEmAberto(d) })),
+    })
+
+    const vencimento = (d: (typeof despesas)[number]) => d.vencimento as Date
+
+    res.status(200).json({
+      atrasadas: grupo(despesas.filter((d) => vencimento(d) < hoje)),
+      estaSemana: grupo(despesas.filter((d) => vencimento(d) >= hoje && vencimento(d) <= fimDaSemana)),
+      esteMes: grupo(despesas.filter((d) => vencimento(d) > fimDaSemana && vencimento(d) <= fimDoMes)),
+    })
+  } catch (error) {
+    res.status(500).json({ erro: error })
+  }
+})
+
+router.get("/:usuarioId", async (req, res) => {
+  const usuarioId = req.usuarioLogadoId
+
+  const valida = filtroDespesasSchema.safeParse(req.query)
+  if (!valida.success) {
+    return res.status(400).json({ erro: valida.error })
+  }
+
+  const filtro = valida.data
+
+  try {
+    await atualizarAtrasadas(usuarioId, await fusoDoUsuario(usuarioId))
+
+    const intervalo = await intervaloDoFiltro(usuarioId, filtro)
+    const where = whereDespesas(usuarioId, filtro, intervalo)
+
+    const [despesas, total] = await Promise.all([
+      prisma.despesa.findMany({
+        where,
+        ...argsPaginacao(filtro, filtro.ordenarPor),
+      }),
+      prisma.despesa.count({ where }),
+    ])
+
+    res.status(200).json(montarPagina(despesas, total, filtro.limite))
   } catch (error) {
     res.status(500).json({ erro: error })
   }
 })
 
 router.get("/dashboard/:usuarioId", async (req, res) => {
-  const { usuarioId } = req.params;
+  const usuarioId = req.usuarioLogadoId;
 
   try {
     const despesas = await prisma.despesa.findMany({
@@ -71,19 +205,36 @@ router.post("/", async (req, res) => {
     return res.status(400).json({ erro: valida.error })
   }
 
-  const { categoria, anexo, ...resto } = valida.data
-
-  const dadosFormatados = {
-    ...resto,
-    categoria: categoria && categoria.trim() !== "" ? categoria : undefined,
-    anexo: anexo && anexo.trim() !== "" ? anexo : undefined,
-  }
+  const { categoria, categoriaId, anexo, vencimento, status, dataPagamento, ...resto } = valida.data
 
   try {
+    const categoriaResolvida = await resolverCategoria(req.usuarioLogadoId, "DESPESA", valida.data)
+    if (!categoriaResolvida) {
+      return res.status(400).json({ erro: "Categoria não encontrada" })
+    }
+
+    const fuso = await fusoDoUsuario(req.usuarioLogadoId)
+
+    const dadosFormatados = {
+      ...resto,
+      ...dadosDeQuitacao(valida.data, fuso),
+      ...categoriaResolvida,
+      usuarioId: req.usuarioLogadoId,
+      anexo: anexo && anexo.trim() !== "" ? anexo : undefined,
+    }
+
     const despesa = await prisma.despesa.create({
       data: dadosFormatados,
     })
-    res.status(201).json(despesa)
+
+    // Avisa quando esta despesa fez a categoria passar de 80% ou 100% do orçamento.
+    // A despesa já foi gravada: falha aqui não pode virar erro da requisição.
+    const alertasOrcamento = await alertasDaDespesa(req.usuarioLogadoId, despesa, fuso).catch((error) => {
+      console.error("Erro ao verificar orçamento:", error)
+      return []
+    })
+
+    res.status(201).json({ ...despesa, alertasOrcamento })
   } catch (error) {
     res.status(400).json({ error })
   }
@@ -97,34 +248,141 @@ router.put("/:id", async (req, res) => {
     return res.status(400).json({ erro: valida.error })
   }
 
-  const { categoria, anexo, ...resto } = valida.data
-
-  const dadosFormatados = {
-    ...resto,
-    categoria: categoria && categoria.trim() !== "" ? categoria : undefined,
-    anexo: anexo && anexo.trim() !== "" ? anexo : undefined,
-  }
+  const { categoria, categoriaId, anexo, vencimento, status, dataPagamento, ...resto } = valida.data
+  const usuarioId = req.usuarioLogadoId
 
   try {
-    const despesa = await prisma.despesa.update({
-      where: { id: Number(id) },
-      data: dadosFormatados,
+    const categoriaResolvida = await resolverCategoria(usuarioId, "DESPESA", valida.data)
+    if (!categoriaResolvida) {
+      return res.status(400).json({ erro: "Categoria não encontrada" })
+    }
+
+    const fuso = await fusoDoUsuario(usuarioId)
+
+    const despesa = await prisma.$transaction(async (transacao) => {
+      // Trava a despesa para um pagamento simultâneo não passar do novo valor
+      const travada = await transacao.$queryRaw<{ id: number }[]>(
+        Prisma.sql`SELECT "id" FROM "despesas" WHERE "id" = ${Number(id)} AND "usuarioId" = ${usuarioId} FOR UPDATE`
+      )
+      if (travada.length === 0) {
+        return null
+      }
+
+      const atual = await transacao.despesa.findUniqueOrThrow({ where: { id: Number(id) } })
+
+      if (atual.valorPago != null && resto.valor < Number(atual.valorPago) - 0.005) {
+        throw new AtualizacaoInvalidaError(`Valor menor que o já pago (${Number(atual.valorPago).toFixed(2)})`)
+      }
+
+      // Campos de quitação omitidos mantêm o que está gravado: clientes antigos
+      // mandam o corpo inteiro sem eles. Só dataPagamento informada pode quitar.
+      const statusGravado = atual.status === "PAGA" ? "PAGA" : "PENDENTE"
+      const quitacao = dadosDeQuitacao(
+        {
+          ...valida.data,
+          vencimento: vencimento ?? atual.vencimento ?? undefined,
+          status: status ?? (dataPagamento ? undefined : statusGravado),
+          dataPagamento: dataPagamento ?? atual.dataPagamento ?? undefined,
+        },
+        fuso
+      )
+
+      return transacao.despesa.update({
+        where: { id: atual.id },
+        data: {
+          ...resto,
+          ...quitacao,
+          // Despesa já paga não perde o histórico de pagamentos parciais
+          ...(atual.status === "PAGA" && { valorPago: atual.valorPago }),
+          ...categoriaResolvida,
+          usuarioId,
+          anexo: anexo && anexo.trim() !== "" ? anexo : undefined,
+        },
+      })
     })
+
+    if (!despesa) {
+      return res.status(404).json({ erro: "Despesa não encontrada" })
+    }
+
     res.status(200).json(despesa)
   } catch (error) {
+    if (error instanceof AtualizacaoInvalidaError) {
+      return res.status(400).json({ erro: error.message })
+    }
     res.status(400).json({ error })
   }
 })
 
+/**
+ * POST /despesas/:id/pagamentos
+ * Registra um pagamento, total ou parcial. A despesa só vira PAGA quando a soma
+ * dos pagamentos alcança o valor; até lá continua em aberto com o saldo menor.
+ */
+router.post("/:id/pagamentos", async (req, res) => {
+  const { id } = req.params
+
+  const valida = pagamentoSchema.safeParse(req.body)
+  if (!valida.success) {
+    return res.status(400).json({ erro: valida.error })
+  }
+
+  try {
+    const despesa = await prisma.despesa.findFirst({
+      where: { id: Number(id), usuarioId: req.usuarioLogadoId },
+    })
+
+    if (!despesa) {
+      return res.status(404).json({ erro: "Despesa não encontrada" })
+    }
+
+    if (despesa.status === "PAGA") {
+      return res.status(400).json({ erro: "Despesa já está paga" })
+    }
+
+    const restante = valorEmAberto(despesa)
+    const valor = valida.data.valor ?? restante
+
+    if (valor > restante + 0.005) {
+      return res.status(400).json({ erro: `Valor maior que o saldo em aberto (${restante.toFixed(2)})` })
+    }
+
+    const valorPago = new Prisma.Decimal(despesa.valorPago ?? 0).plus(valor)
+    const quitada = valorPago.gte(despesa.valor)
+
+    // Condicional no valorPago lido: dois pagamentos simultâneos não somam em cima do mesmo saldo
+    const { count } = await prisma.despesa.updateMany({
+      where: { id: despesa.id, valorPago: despesa.valorPago, status: { in: STATUS_EM_ABERTO } },
+      data: quitada
+        ? { valorPago: null, status: "PAGA", dataPagamento: valida.data.dataPagamento ?? new Date() }
+        : { valorPago },
+    })
+
+    if (count === 0) {
+      return res.status(409).json({ erro: "A despesa foi alterada por outra operação, tente novamente" })
+    }
+
+    const atualizada = await prisma.despesa.findUniqueOrThrow({ where: { id: despesa.id } })
+    res.status(200).json({ ...atualizada, valorEmAberto: valorEmAberto(atualizada) })
+  } catch (error) {
+    res.status(400).json({ erro: error })
+  }
+})
+
 router.delete("/:id", async (req, res) => {
   const { id } = req.params
 
   try {
-    const despesa = await prisma.despesa.delete({
-      where: { id: Number(id) },
+    const { arquivos, ...despesa } = await prisma.despesa.delete({
+      where: { id: Number(id), usuarioId: req.usuarioLogadoId },
+      include: { arquivos: true },
     })
+    await removerDoArmazenamento(arquivos)
     res.status(200).json(despesa)
-  } catch (error) {
+  } catch (error: any) {
+    if (error.code === "P2025") {
+      return res.status(404).json({ erro: "Despesa não encontrada" })
+    }
     res.status(400).json({ erro: error })
   }
 })
@@ -0,0 +1,369 @@
+import { PrismaClient } from "@prisma/client";
+import { Router, Response } from "express";
+import { once } from "events";
+import ExcelJS from "exceljs";
+import { z } from "zod";
+import { formatarProdutoParaExibicao, quantidadeParaExibicao } from "../utils/unidades";
+import {
+  filtroReceitasSchema,
+  filtroDespesasSchema,
+  filtroClientesSchema,
+  filtroProdutosSchema,
+  intervaloDoFiltro,
+  whereReceitas,
+  whereDespesas,
+  whereClientes,
+  whereProdutos,
+  argsPaginacao,
+} from "../utils/filtros";
+
+const prisma = new PrismaClient();
+const router = Router();
+
+// Quantas linhas buscar do banco por vez enquanto o arquivo é gerado
+const TAMANHO_LOTE = 500;
+
+const formatoSchema = z.object({
+  formato: z.enum(["csv", "xlsx"]).default("csv"),
+});
+
+type TipoColuna = "texto" | "numero" | "moeda" | "data";
+type Celula = string | number | Date | null | undefined;
+type Coluna = { titulo: string; tipo: TipoColuna };
+
+interface Escritor {
+  escreverLinha(celulas: Celula[]): Promise<void>;
+  finalizar(): Promise<void>;
+}
+
+function formatarNumero(valor: number, casas: number) {
+  return valor.toLocaleString("pt-BR", {
+    minimumFractionDigits: casas,
+    maximumFractionDigits: casas,
+    useGrouping: false,
+  });
+}
+
+function escaparCsv(texto: string) {
+  return /[";\n\r]/.test(texto) ? `"${texto.replace(/"/g, '""')}"` : texto;
+}
+
+// CSV no padrão brasileiro: ";" como separador, vírgula decimal e datas dd/mm/aaaa
+function criarEscritorCsv(res: Response, colunas: Coluna[], fuso: string): Escritor {
+  const escrever = async (linha: string) => {
+    if (!res.write(linha + "\r\n")) {
+      await once(res, "drain");
+    }
+  };
+
+  // BOM para o Excel reconhecer UTF-8 (acentos)
+  res.write("\uFEFF");
+  const cabecalho = escrever(colunas.map((c) => escaparCsv(c.titulo)).join(";"));
+
+  return {
+    async escreverLinha(celulas) {
+      await cabecalho;
+      const campos = celulas.map((celula, i) => {
+        if (celula === null || celula === undefined) return "";
+        if (celula instanceof Date) return celula.toLocaleDateString("pt-BR", { timeZone: fuso });
+        if (typeof celula === "number") {
+          return formatarNumero(celula, colunas[i].tipo === "moeda" ? 2 : 3);
+        }
+        return escaparCsv(celula);
+      });
+      await escrever(campos.join(";"));
+    },
+    async finalizar() {
+      await cabecalho;
+      res.end();
+    },
+  };
+}
+
+// Data local (fuso do usuário) sem horário, para a célula de data do Excel não "voltar um dia"
+function dataLocal(data: Date, fuso: string) {
+  const [dia, mes, ano] = data.toLocaleDateString("pt-BR", { timeZone: fuso }).split("/").map(Number);
+  return new Date(Date.UTC(ano, mes - 1, dia));
+}
+
+function criarEscritorXlsx(res: Response, colunas: Coluna[], fuso: string, nomePlanilha: string): Escritor {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: res, useStyles: true });
+  const planilha = workbook.addWorksheet(nomePlanilha);
+
+  const formatos: Record<TipoColuna, string | undefined> = {
+    texto: undefined,
+    numero: "0.000",
+    moeda: "#,##0.00",
+    data: "dd/mm/yyyy",
+  };
+
+  planilha.columns = colunas.map((coluna, i) => ({
+    header: coluna.titulo,
+    key: String(i),
+    width: Math.max(12, coluna.titulo.length + 2),
+    style: formatos[coluna.tipo] ? { numFmt: formatos[coluna.tipo] } : {},
+  }));
+
+  return {
+    async escreverLinha(celulas) {
+      planilha
+        .addRow(celulas.map((celula) => (celula instanceof Date ? dataLocal(celula, fuso) : celula ?? null)))
+        .commit();
+    },
+    async finalizar() {
+      planilha.commit();
+      await workbook.commit();
+    },
+  };
+}
+
+/**
+ * Percorre todos os registros que batem com o filtro em lotes (paginação por cursor),
+ * sem carregar a exportação inteira em memória.
+ */
+async function* emLotes<T extends { id: number }>(buscar: (cursor: number | undefined) => Promise<T[]>) {
+  let cursor: number | undefined;
+
+  while (true) {
+    const lote = await buscar(cursor);
+    yield lote;
+
+    if (lote.length < TAMANHO_LOTE) return;
+    cursor = lote[lote.length - 1].id;
+  }
+}
+
+function argsLote(cursor: number | undefined) {
+  return {
+    take: TAMANHO_LOTE,
+    ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+  };
+}
+
+const COLUNAS = {
+  receitas: [
+    { titulo: "Data", tipo: "data" },
+    { titulo: "Receita", tipo: "texto" },
+    { titulo: "Descrição", tipo: "texto" },
+    { titulo: "Categoria", tipo: "texto" },
+    { titulo: "Cliente", tipo: "texto" },
+    { titulo: "Produto", tipo: "texto" },
+    { titulo: "Quantidade", tipo: "numero" },
+    { titulo: "Unidade", tipo: "texto" },
+    { titulo: "Subtotal", tipo: "moeda" },
+    { titulo: "Valor da receita", tipo: "moeda" },
+  ],
+  despesas: [
+    { titulo: "Data", tipo: "data" },
+    { titulo: "Descrição", tipo: "texto" },
+    { titulo: "Categoria", tipo: "texto" },
+    { titulo: "Valor", tipo: "moeda" },
+    { titulo: "Anexo", tipo: "texto" },
+  ],
+  clientes: [
+    { titulo: "Nome", tipo: "texto" },
+    { titulo: "Telefone", tipo: "texto" },
+    { titulo: "Endereço", tipo: "texto" },
+    { titulo: "Notas", tipo: "texto" },
+    { titulo: "Cadastro", tipo: "data" },
+    { titulo: "Compras", tipo: "texto" },
+    { titulo: "Total gasto", tipo: "moeda" },
+  ],
+  produtos: [
+    { titulo: "Nome", tipo: "texto" },
+    { titulo: "Categoria", tipo: "texto" },
+    { titulo: "Unidade", tipo: "texto" },
+    { titulo: "Saldo", tipo: "numero" },
+    { titulo: "Custo médio", tipo: "moeda" },
+    { titulo: "Cadastro", tipo: "data" },
+  ],
+} satisfies Record<string, Coluna[]>;
+
+type Recurso = keyof typeof COLUNAS;
+
+// Cada recurso valida os mesmos filtros da sua listagem e escreve as linhas no escritor
+const exportadores: Record<Recurso, (usuarioId: string, query: unknown, escritor: () => Escritor) => Promise<void>> = {
+  async receitas(usuarioId, query, criarEscritor) {
+    const filtro = filtroReceitasSchema.parse(query);
+    const where = whereReceitas(usuarioId, filtro, await intervaloDoFiltro(usuarioId, filtro));
+    const { orderBy } = argsPaginacao(filtro, filtro.ordenarPor);
+    const escritor = criarEscritor();
+
+    const lotes = emLotes((cursor) =>
+      prisma.receita.findMany({
+        where,
+        orderBy,
+        ...argsLote(cursor),
+        include: { cliente: true, itens: { include: { produto: true } } },
+      })
+    );
+
+    for await (const lote of lotes) {
+      for (const receita of lote) {
+        const comuns = [receita.data, String(receita.id), receita.descricao, receita.categoria, receita.cliente?.nome];
+
+        // Receita sem itens ainda sai em uma linha, com as colunas de produto vazias
+        if (receita.itens.length === 0) {
+          await escritor.escreverLinha([...comuns, null, null, null, null, Number(receita.valor)]);
+          continue;
+        }
+
+        for (const item of receita.itens) {
+          const { quantidade, unidade } = quantidadeParaExibicao(item.qtdBase, item.produto.unidadeBase);
+          await escritor.escreverLinha([
+            ...comuns,
+            item.produto.nome,
+            quantidade,
+            unidade,
+            Number(item.subtotal),
+            Number(receita.valor),
+          ]);
+        }
+      }
+    }
+
+    await escritor.finalizar();
+  },
+
+  async despesas(usuarioId, query, criarEscritor) {
+    const filtro = filtroDespesasSchema.parse(query);
+    const where = whereDespesas(usuarioId, filtro, await intervaloDoFiltro(usuarioId, filtro));
+    const { orderBy } = argsPaginacao(filtro, filtro.ordenarPor);
+    const escritor = criarEscritor();
+
+    for await (const lote of emLotes((cursor) => prisma.despesa.findMany({ where, orderBy, ...argsLote(cursor) }))) {
+      for (const despesa of lote) {
+        await escritor.escreverLinha([
+          despesa.data,
+          despesa.descricao,
+          despesa.categoria,
+          Number(despesa.valor),
+          despesa.anexo,
+        ]);
+      }
+    }
+
+    await escritor.finalizar();
+  },
+
+  async clientes(usuarioId, query, criarEscritor) {
+    const filtro = filtroClientesSchema.parse(query);
+    const where = whereClientes(usuarioId, filtro, await intervaloDoFiltro(usuarioId, filtro));
+    const { orderBy } = argsPaginacao(filtro, filtro.ordenarPor);
+    const escritor = criarEscritor();
+
+    for await (const lote of emLotes((cursor) => prisma.cliente.findMany({ where, orderBy, ...argsLote(cursor) }))) {
+      const totais = await prisma.receita.groupBy({
+        by: ["clienteId"],
+        where: { usuarioId, clienteId: { in: lote.map((c) => c.id) } },
+        _sum: { valor: true },
+        _count: { _all: true },
+      });
+
+      for (const cliente of lote) {
+        const total = totais.find((t) => t.clienteId === cliente.id);
+        await escritor.escreverLinha([
+          cliente.nome,
+          cliente.telefone,
+          cliente.endereco,
+          cliente.notas,
+          cliente.createdAt,
+          String(total?._count._all ?? 0),
+          Number(total?._sum.valor ?? 0),
+        ]);
+      }
+    }
+
+    await escritor.finalizar();
+  },
+
+  async produtos(usuarioId, query, criarEscritor) {
+    const filtro = filtroProdutosSchema.parse(query);
+    const where = whereProdutos(usuarioId, filtro, await intervaloDoFiltro(usuarioId, filtro));
+    const { orderBy } = argsPaginacao(filtro, filtro.ordenarPor);
+    const escritor = criarEscritor();
+
+    for await (const lote of emLotes((cursor) => prisma.produto.findMany({ where, orderBy, ...argsLote(cursor) }))) {
+      for (const produto of lote) {
+        const formatado = formatarProdutoParaExibicao(produto);
+        await escritor.escreverLinha([
+          produto.nome,
+          produto.categoria,
+          formatado.unidadeDisplay,
+          formatado.saldoDisplay,
+          formatado.precoMedioDisplay,
+          produto.createdAt,
+        ]);
+      }
+    }
+
+    await escritor.finalizar();
+  },
+};
+
+// Só chaves próprias: "toString", "constructor"... vêm do protótipo
+function ehRecurso(valor: string): valor is Recurso {
+  return Object.prototype.hasOwnProperty.call(exportadores, valor);
+}
+
+/**
+ * GET /exportacoes/:recurso?formato=csv|xlsx
+ * Exporta receitas (uma linha por item), despesas, clientes ou produtos com os
+ * mesmos filtros das listagens. O arquivo é gerado em streaming.
+ */
+router.get("/:recurso", async (req, res) => {
+  const { recurso } = req.params;
+
+  if (!ehRecurso(recurso)) {
+    return res.status(404).json({ erro: "Recurso de exportação inválido" });
+  }
+
+  const valida = formatoSchema.safeParse(req.query);
+  if (!valida.success) {
+    return res.status(400).json({ erro: valida.error });
+  }
+
+  const { formato } = valida.data;
+
+  try {
+    const usuario = await prisma.usuario.findUniqueOrThrow({
+      where: { id: req.usuarioLogadoId },
+      select: { fusoHorario: true },
+    });
+
+    const colunas = COLUNAS[recurso];
+    const nomeArquivo = `${recurso}-${new Date().toISOString().slice(0, 10)}.${formato}`;
+
+    // Os cabeçalhos só são enviados depois de validar os filtros (primeira escrita)
+    const criarEscritor = () => {
+      res.setHeader("Content-Disposition", `attachment; filename="${nomeArquivo}"`);
+      res.setHeader(
+        "Content-Type",
+        formato === "csv"
+          ? "text/csv; charset=utf-8"
+          : "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+      );
+
+      return formato === "csv"
+        ? criarEscritorCsv(res, colunas, usuario.fusoHorario)
+        : criarEscritorXlsx(res, colunas, usuario.fusoHorario, recurso);
+    };
+
+    await exportadores[recurso](req.usuarioLogadoId, req.query, criarEscritor);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ erro: "Dados inválidos", detalhes: error.errors });
+    }
+
+    console.error("Erro ao exportar:", error);
+
+    // Com o arquivo já começando a ser enviado não dá mais para responder JSON
+    if (res.headersSent) {
+      return res.destroy();
+    }
+
+    res.status(500).json({ erro: "Erro ao exportar dados" });
+  }
+});
+
+export default router;
@@ -0,0 +1,233 @@
+import { PrismaClient, Atividade_MEI } from "@prisma/client";
+import { Router } from "express";
+import { z } from "zod";
+import { diaComoData, diaNoFuso, hojeComoData, meiaNoiteNoFuso } from "../utils/periodo";
+import {
+  NIVEIS_ALERTA_MEI,
+  competenciaInformada,
+  distribuirPagamentosDas,
+  limiteDoAno,
+  pareceDas,
+  valorDas,
+  valorPareceDas,
+  vencimentoDoDas,
+} from "../utils/mei";
+
+const prisma = new PrismaClient();
+const router = Router();
+
+const UM_DIA = 24 * 60 * 60 * 1000;
+
+const perfilSchema = z.object({
+  atividadeMei: z.nativeEnum(Atividade_MEI),
+  aberturaMei: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, { message: "Use o formato AAAA-MM-DD" })
+    .transform((valor) => new Date(`${valor}T00:00:00.000Z`)),
+});
+
+const meiSchema = z.object({
+  ano: z.coerce.number().int().min(2000).optional(),
+});
+
+const camposPerfil = { atividadeMei: true, aberturaMei: true } as const;
+
+// "2026-03" a partir de ano e mês (0-11)
+function chaveDoMes(ano: number, mes: number) {
+  return `${ano}-${String(mes + 1).padStart(2, "0")}`;
+}
+
+const arredondar = (valor: number) => Number(valor.toFixed(2));
+
+router.get("/perfil", async (req, res) => {
+  try {
+    const perfil = await prisma.usuario.findUniqueOrThrow({
+      where: { id: req.usuarioLogadoId },
+      select: camposPerfil,
+    });
+    res.status(200).json(perfil);
+  } catch (error) {
+    console.error("Erro ao consultar perfil fiscal:", error);
+    res.status(500).json({ erro: "Erro ao consultar perfil fiscal" });
+  }
+});
+
+router.put("/perfil", async (req, res) => {
+  const parseResult = perfilSchema.safeParse(req.body);
+  if (!parseResult.success) {
+    return res.status(400).json({ erro: parseResult.error.flatten() });
+  }
+
+  try {
+    const perfil = await prisma.usuario.update({
+      where: { id: req.usuarioLogadoId },
+      data: parseResult.data,
+      select: camposPerfil,
+    });
+    res.status(200).json(perfil);
+  } catch (error) {
+    console.error("Erro ao salvar perfil fiscal:", error);
+    res.status(400).json({ erro: "Erro ao salvar perfil fiscal" });
+  }
+});
+
+/**
+ * GET /fiscal/mei?ano=AAAA
+ * Faturamento bruto do ano (todas as receitas, à vista ou fiado) contra o
+ * limite do MEI, projeção de quando o limite será atingido pelo ritmo atual,
+ * alertas de 80%/100%/120% e o DAS de cada mês com a despesa que o pagou.
+ */
+router.get("/mei", async (req, res) => {
+  const parseResult = meiSchema.safeParse(req.query);
+  if (!parseResult.success) {
+    return res.status(400).json({ erro: parseResult.error.flatten() });
+  }
+
+  const usuarioId = req.usuarioLogadoId;
+
+  try {
+    const usuario = await prisma.usuario.findUniqueOrThrow({
+      where: { id: usuarioId },
+      select: { fusoHorario: true, ...camposPerfil },
+    });
+
+    if (!usuario.atividadeMei) {
+      return res.status(400).json({ erro: "Cadastre o perfil fiscal (atividade e abertura) em PUT /fiscal/perfil" });
+    }
+
+    const fuso = usuario.fusoHorario;
+    const hojeReal = hojeComoData(fuso);
+    const ano = parseResult.data.ano ?? hojeReal.getUTCFullYear();
+
+    if (ano > hojeReal.getUTCFullYear()) {
+      return res.status(400).json({ erro: "Ano ainda não começou" });
+    }
+    if (usuario.aberturaMei && usuario.aberturaMei.getUTCFullYear() > ano) {
+      return res.status(400).json({ erro: "MEI aberto depois deste ano" });
+    }
+
+    // Ano já encerrado é avaliado no último dia dele
+    const hoje = ano < hojeReal.getUTCFullYear() ? new Date(Date.UTC(ano, 11, 31)) : hojeReal;
+    const limite = limiteDoAno(ano, usuario.aberturaMei);
+
+    const receitas = await prisma.receita.findMany({
+      where: {
+        usuarioId,
+        data: { gte: meiaNoiteNoFuso(ano, 0, 1, fuso), lt: meiaNoiteNoFuso(ano + 1, 0, 1, fuso) },
+      },
+      select: { data: true, valor: true },
+    });
+
+    const porMes = Array.from({ length: 12 }, () => 0);
+    for (const receita of receitas) {
+      porMes[diaNoFuso(receita.data, fuso).mes] += Number(receita.valor);
+    }
+
+    const acumulado = arredondar(porMes.reduce((acc, valor) => acc + valor, 0));
+    const percentual = limite.valor > 0 ? arredondar((acumulado / limite.valor) * 100) : 0;
+
+    // Ritmo médio por dia desde o início da atividade no ano
+    const inicio = new Date(Date.UTC(ano, 0, 1));
+    const inicioAtividade =
+      usuario.aberturaMei && usuario.aberturaMei > inicio ? usuario.aberturaMei : inicio;
+    const fimDoAno = new Date(Date.UTC(ano, 11, 31));
+    const diasDecorridos = Math.max(Math.round((hoje.getTime() - inicioAtividade.getTime()) / UM_DIA) + 1, 1);
+    const diasNoAno = Math.round((fimDoAno.getTime() - inicioAtividade.getTime()) / UM_DIA) + 1;
+    const mediaDiaria = acumulado / diasDecorridos;
+
+    let dataPrevistaLimite: string | null = null;
+    if (acumulado < limite.valor && mediaDiaria > 0) {
+      const previsao = new Date(hoje.getTime() + Math.ceil((limite.valor - acumulado) / mediaDiaria) * UM_DIA);
+      dataPrevistaLimite = previsao <= fimDoAno ? previsao.toISOString().slice(0, 10) : null;
+    }
+
+    const faturamentoProjetado = arredondar(mediaDiaria * diasNoAno);
+
+    const alertas = NIVEIS_ALERTA_MEI.filter((a) => percentual >= a.nivel);
+
+    // DAS: competências desde o mês de abertura até o mês atual, vencendo dia 20 do mês seguinte
+    const mesAtual = hoje.getUTCMonth();
+    const valorMensalDas = valorDas(ano, usuario.atividadeMei);
+
+    const despesas = await prisma.despesa.findMany({
+      where: {
+        usuarioId,
+        OR: [
+          { data: { gte: meiaNoiteNoFuso(ano, 0, 1, fuso), lt: meiaNoiteNoFuso(ano + 1, 2, 1, fuso) } },
+          { vencimento: { gte: inicio, lt: new Date(Date.UTC(ano + 1, 2, 1)) } },
+        ],
+      },
+      select: {
+        id: true,
+        descricao: true,
+        categoria: true,
+        valor: true,
+        data: true,
+        vencimento: true,
+        status: true,
+        dataPagamento: true,
+      },
+      orderBy: { id: "asc" },
+    });
+
+    const candidatas = despesas
+      .filter((d) => (pareceDas(d.descricao) || pareceDas(d.categoria)) && valorPareceDas(Number(d.valor), valorMensalDas))
+      .map((d) => {
+        const referencia = diaComoData(d.dataPagamento ?? d.data, fuso);
+        return { ...d, referencia, competencia: competenciaInformada(d, referencia), paga: d.status === "PAGA" };
+      });
+
+    const meses = Array.from({ length: mesAtual - limite.mesInicial + 1 }, (_, i) => limite.mesInicial + i);
+    const despesaDoMes = distribuirPagamentosDas(ano, meses, candidatas);
+
+    const das = [];
+    for (const mes of meses) {
+      const vencimento = vencimentoDoDas(ano, mes);
+      const despesa = despesaDoMes.get(mes);
+
+      const pago = despesa?.status === "PAGA";
+
+      das.push({
+        competencia: chaveDoMes(ano, mes),
+        vencimento: vencimento.toISOString().slice(0, 10),
+        valor: valorMensalDas,
+        pago,
+        situacao: pago ? "PAGO" : vencimento < hojeReal ? "ATRASADO" : "A_VENCER",
+        despesa: despesa
+          ? { id: despesa.id, descricao: despesa.descricao, valor: Number(despesa.valor), status: despesa.status }
+          : null,
+      });
+    }
+
+    const dasEmAtraso = das.filter((d) => d.situacao === "ATRASADO");
+
+    res.status(200).json({
+      ano,
+      perfil: { atividadeMei: usuario.atividadeMei, aberturaMei: usuario.aberturaMei },
+      limite,
+      faturamento: {
+        acumulado,
+        percentualDoLimite: percentual,
+        restante: arredondar(Math.max(limite.valor - acumulado, 0)),
+        porMes: porMes.map((valor, mes) => ({ mes: chaveDoMes(ano, mes), valor: arredondar(valor) })),
+      },
+      projecao: {
+        mediaMensal: arredondar(mediaDiaria * 30),
+        faturamentoProjetadoAno: faturamentoProjetado,
+        percentualProjetado: limite.valor > 0 ? arredondar((faturamentoProjetado / limite.valor) * 100) : 0,
+        dataPrevistaLimite,
+      },
+      alertas,
+      das,
+      dasEmAtraso: {
+        quantidade: dasEmAtraso.length,
+        total: arredondar(dasEmAtraso.reduce((acc, d) => acc + d.valor, 0)),
+      },
+    });
+  } catch (error) {
+    console.error("Erro ao calcular situação do MEI:", error);
+    res.status(500).json({ erro: "Erro ao calcular situação do MEI" });
+  }
+});
+
+export default router;
@@ -0,0 +1,307 @@
+import { PrismaClient, Tipo_Lancamento } from "@prisma/client";
+import express, { Router } from "express";
+import { z } from "zod";
+import { meiaNoiteNoFuso } from "../utils/periodo";
+import { verificarLimiteReceitasPorMes } from "../utils/planos";
+import { resolverCategoria } from "../utils/categorias";
+import {
+  decodificarArquivo,
+  lerCsv,
+  lerOfx,
+  mapeamentoCsvSchema,
+  LancamentoExtrato,
+} from "../utils/extrato";
+
+const prisma = new PrismaClient();
+const router = Router();
+
+const MAX_LINHAS_EXTRATO = 2000;
+
+const regraSchema = z.object({
+  padrao: z.string().trim().min(2, { message: "Padrão deve ter no mínimo 2 caracteres" }),
+  categoria: z.string().trim().min(2, { message: "Categoria deve ter no mínimo 2 caracteres" }),
+  tipo: z.nativeEnum(Tipo_Lancamento).optional().nullable(),
+  prioridade: z.coerce.number().int().optional(),
+});
+
+const confirmacaoSchema = z.object({
+  itens: z
+    .array(
+      z.object({
+        tipo: z.nativeEnum(Tipo_Lancamento),
+        data: z.coerce.date(),
+        descricao: z.string().trim().min(2),
+        valor: z.coerce.number().positive(),
+        categoria: z.string().trim().min(2).optional().nullable(),
+        fitid: z.string().optional().nullable(),
+      })
+    )
+    .min(1)
+    .max(MAX_LINHAS_EXTRATO),
+});
+
+// Minúsculas e sem acento, para "PIX Padaria São João" casar com "padaria sao joao"
+function normalizar(texto: string) {
+  return texto.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase().trim();
+}
+
+function chaveDoDia(data: Date, fuso: string) {
+  return data.toLocaleDateString("pt-BR", { timeZone: fuso });
+}
+
+/**
+ * POST /importacoes/preview?formato=ofx|csv
+ * Recebe o arquivo do extrato no corpo (texto puro). Para CSV o mapeamento de
+ * colunas vai na query (colunaData, colunaDescricao, colunaValor...).
+ * Nada é gravado: devolve as linhas classificadas para o usuário revisar.
+ */
+router.post(
+  "/preview",
+  express.raw({ type: () => true, limit: "5mb" }),
+  async (req, res) => {
+    const formato = req.query.formato === "csv" ? "csv" : "ofx";
+
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      return res.status(400).json({ erro: "Envie o arquivo do extrato no corpo da requisição" });
+    }
+
+    let resultado: ReturnType<typeof lerOfx>;
+    const conteudo = decodificarArquivo(req.body);
+
+    if (formato === "csv") {
+      const mapeamento = mapeamentoCsvSchema.safeParse(req.query);
+      if (!mapeamento.success) {
+        return res.status(400).json({ erro: mapeamento.error.flatten() });
+      }
+      resultado = lerCsv(conteudo, mapeamento.data);
+    } else {
+      resultado = lerOfx(conteudo);
+    }
+
+    const { erros } = resultado;
+    const lancamentos = resultado.lancamentos.filter((lancamento) => {
+      if (lancamento.valor === 0) {
+        erros.push({ linha: lancamento.linha, erro: "Lançamento com valor zero" });
+        return false;
+      }
+      return true;
+    });
+
+    if (lancamentos.length === 0) {
+      return res.status(400).json({ erro: "Nenhum lançamento encontrado no arquivo", erros });
+    }
+
+    if (lancamentos.length > MAX_LINHAS_EXTRATO) {
+      return res.status(400).json({ erro: `O extrato pode ter no máximo ${MAX_LINHAS_EXTRATO} lançamentos` });
+    }
+
+    const usuarioId = req.usuarioLogadoId;
+
+    try {
+      const usuario = await prisma.usuario.findUniqueOrThrow({
+        where: { id: usuarioId },
+        select: { fusoHorario: true },
+      });
+      const fuso = usuario.fusoHorario;
+
+      const dataDoLancamento = (lancamento: LancamentoExtrato) =>
+        meiaNoiteNoFuso(lancamento.dia.ano, lancamento.dia.mes, lancamento.dia.dia, fuso);
+
+      const datas = lancamentos.map(dataDoLancamento);
+      const inicio = new Date(Math.min(...datas.map((d) => d.getTime())));
+      const fim = new Date(Math.max(...datas.map((d) => d.getTime())) + 24 * 60 * 60 * 1000);
+      const fitids = lancamentos.map((l) => l.fitid).filter((f): f is string => !!f);
+
+      // Candidatos a duplicata: mesmo FITID ou lançamentos no intervalo de datas do arquivo
+      const filtroExistentes = {
+        usuarioId,
+        OR: [{ fitid: { in: fitids } }, { data: { gte: inicio, lt: fim } }],
+      };
+
+      const [regras, receitas, despesas] = await Promise.all([
+        prisma.regraCategoria.findMany({
+          where: { usuarioId },
+          orderBy: [{ prioridade: "desc" }, { createdAt: "asc" }],
+        }),
+        prisma.receita.findMany({ where: filtroExistentes, select: { id: true, data: true, valor: true, fitid: true } }),
+        prisma.despesa.findMany({ where: filtroExistentes, select: { id: true, data: true, valor: true, fitid: true } }),
+      ]);
+
+      const linhas = lancamentos.map((lancamento, indice) => {
+        const tipo: Tipo_Lancamento = lancamento.valor > 0 ? "RECEITA" : "DESPESA";
+        const valor = Math.abs(lancamento.valor);
+        const data = datas[indice];
+        const existentes = tipo === "RECEITA" ? receitas : despesas;
+
+        const descricaoNormalizada = normalizar(lancamento.descricao);
+        const regra = regras.find(
+          (r) => (!r.tipo || r.tipo === tipo) && descricaoNormalizada.includes(normalizar(r.padrao))
+        );
+
+        const mesmoFitid = lancamento.fitid && existentes.find((e) => e.fitid === lancamento.fitid);
+        const mesmaDataValor = existentes.find(
+          (e) => chaveDoDia(e.data, fuso) === chaveDoDia(data, fuso) && Number(e.valor) === valor
+        );
+
+        let duplicata = null;
+        if (mesmoFitid) {
+          duplicata = { motivo: "fitid", registroId: mesmoFitid.id };
+        } else if (mesmaDataValor) {
+          duplicata = { motivo: "data_valor", registroId: mesmaDataValor.id };
+        }
+
+        return {
+          linha: lancamento.linha,
+          tipo,
+          data,
+          descricao: lancamento.descricao,
+          valor,
+          fitid: lancamento.fitid,
+          categoriaSugerida: regra?.categoria ?? null,
+          duplicata,
+        };
+      });
+
+      res.status(200).json({ linhas, erros });
+    } catch (error) {
+      console.error("Erro ao gerar prévia da importação:", error);
+      res.status(500).json({ erro: "Erro ao processar extrato" });
+    }
+  }
+);
+
+/**
+ * POST /importacoes/confirmar
+ * Cria de uma vez (numa transação) as linhas da prévia selecionadas pelo usuário.
+ * Lançamentos com FITID já importado são ignorados.
+ */
+router.post("/confirmar", async (req, res) => {
+  const parseResult = confirmacaoSchema.safeParse(req.body);
+  if (!parseResult.success) {
+    return res.status(400).json({ erro: parseResult.error.flatten() });
+  }
+
+  const { itens } = parseResult.data;
+  const usuarioId = req.usuarioLogadoId;
+
+  const receitas = itens.filter((item) => item.tipo === "RECEITA");
+  const despesas = itens.filter((item) => item.tipo === "DESPESA");
+
+  try {
+    if (receitas.length > 0) {
+      // Linhas do extrato têm a própria data: o limite é conferido no mês de cada uma
+      const limiteAtingido = await verificarLimiteReceitasPorMes(
+        usuarioId,
+        receitas.map((item) => item.data)
+      );
+      if (limiteAtingido) {
+        return res.status(402).json(limiteAtingido);
+      }
+    }
+
+    // Vincula à categoria cadastrada de mesmo nome; um lookup por nome distinto
+    const categorias = new Map<string, Awaited<ReturnType<typeof resolverCategoria>>>();
+    for (const item of itens) {
+      const chave = `${item.tipo}:${item.categoria ?? ""}`;
+      if (!categorias.has(chave)) {
+        categorias.set(chave, await resolverCategoria(usuarioId, item.tipo, { categoria: item.categoria }));
+      }
+    }
+
+    const dados = (item: (typeof itens)[number]) => ({
+      descricao: item.descricao,
+      valor: item.valor,
+      data: item.data,
+      ...categorias.get(`${item.tipo}:${item.categoria ?? ""}`),
+      fitid: item.fitid || null,
+      usuarioId,
+    });
+
+    // skipDuplicates + @@unique([usuarioId, fitid]) evita importar duas vezes a mesma transação
+    const [receitasCriadas, despesasCriadas] = await prisma.$transaction([
+      prisma.receita.createMany({ data: receitas.map(dados), skipDuplicates: true }),
+      prisma.despesa.createMany({ data: despesas.map(dados), skipDuplicates: true }),
+    ]);
+
+    res.status(201).json({
+      receitasCriadas: receitasCriadas.count,
+      despesasCriadas: despesasCriadas.count,
+      ignorados: itens.length - receitasCriadas.count - despesasCriadas.count,
+    });
+  } catch (error) {
+    console.error("Erro ao confirmar importação:", error);
+    res.status(500).json({ erro: "Erro ao importar lançamentos" });
+  }
+});
+
+router.get("/regras", async (req, res) => {
+  try {
+    const regras = await prisma.regraCategoria.findMany({
+      where: { usuarioId: req.usuarioLogadoId },
+      orderBy: [{ prioridade: "desc" }, { createdAt: "asc" }],
+    });
+    res.status(200).json(regras);
+  } catch (error) {
+    console.error("Erro ao listar regras:", error);
+    res.status(500).json({ erro: "Erro ao listar regras de categoria" });
+  }
+});
+
+router.post("/regras", async (req, res) => {
+  const parseResult = regraSchema.safeParse(req.body);
+  if (!parseResult.success) {
+    return res.status(400).json({ erro: parseResult.error.flatten() });
+  }
+
+  try {
+    const regra = await prisma.regraCategoria.create({
+      data: { ...parseResult.data, usuarioId: req.usuarioLogadoId },
+    });
+    res.status(201).json(regra);
+  } catch (error) {
+    console.error("Erro ao criar regra:", error);
+    res.status(400).json({ erro: "Erro ao criar regra de categoria" });
+  }
+});
+
+router.put("/regras/:id", async (req, res) => {
+  const { id } = req.params;
+
+  const parseResult = regraSchema.safeParse(req.body);
+  if (!parseResult.success) {
+    return res.status(400).json({ erro: parseResult.error.flatten() });
+  }
+
+  try {
+    const regra = await prisma.regraCategoria.update({
+      where: { id: Number(id), usuarioId: req.usuarioLogadoId },
+      data: parseResult.data,
+    });
+    res.status(200).json(regra);
+  } catch (error: any) {
+    if (error.code === "P2025") {
+      return res.status(404).json({ erro: "Regra não encontrada" });
+    }
+    console.error("Erro ao atualizar regra:", error);
+    res.status(400).json({ erro: "Erro ao atualizar regra de categoria" });
+  }
+});
+
+router.delete("/regras/:id", async (req, res) => {
+  const { id } = req.params;
+
+  try {
+    const regra = await prisma.regraCategoria.delete({
+      where: { id: Number(id), usuarioId: req.usuarioLogadoId },
+    });
+    res.status(200).json(regra);
+  } catch (error: any) {
+    if (error.code === "P2025") {
+      return res.status(404).json({ erro: "Regra não encontrada" });
+    }
+    console.error("Erro ao excluir regra:", error);
+    res.status(400).json({ erro: "Erro ao excluir regra de categoria" });
+  }
+});
+
+export default router;
@@ -1,13 +1,61 @@
 import jwt from "jsonwebtoken"
-import { PrismaClient } from "@prisma/client"
+import { PrismaClient, Prisma } from "@prisma/client"
 import { Router } from "express"
 import bcrypt from 'bcrypt'
+import crypto from 'crypto'
+import { validaSenha } from './usuarios'
+import { enviarEmail } from '../utils/email'
 
 const prisma = new PrismaClient()
 const router = Router()
 
+const EXPIRACAO_TOKEN_SENHA_MINUTOS = 30
+const EXPIRACAO_REFRESH_TOKEN_DIAS = 30
+
+function hashToken(token: string) {
+  return crypto.createHash("sha256").update(token).digest("hex")
+}
+
+function gerarTokenAcesso(usuario: { id: string, nome: string }, sessaoId: string) {
+  return jwt.sign(
+    { usuarioLogadoId: usuario.id, usuarioLogadoNome: usuario.nome, sessaoId },
+    process.env.JWT_KEY as string,
+    { expiresIn: "15m" }
+  )
+}
+
+type DadosSessao = {
+  usuarioId: string
+  familia: string
+  iniciadaEm: Date
+  dispositivo?: string | null
+  userAgent?: string | null
+}
+
+// Cria um novo refresh token (linha de Sessao) e devolve o token em texto puro
+async function criarRefreshToken(transacao: Prisma.TransactionClient, dados: DadosSessao) {
+  const refreshToken = crypto.randomBytes(48).toString("hex")
+
+  await transacao.sessao.create({
+    data: {
+      ...dados,
+      refreshTokenHash: hashToken(refreshToken),
+      expiraEm: new Date(Date.now() + EXPIRACAO_REFRESH_TOKEN_DIAS * 24 * 60 * 60 * 1000),
+    },
+  })
+
+  return refreshToken
+}
+
+async function revogarFamilia(familia: string) {
+  await prisma.sessao.updateMany({
+    where: { familia, revogadaEm: null },
+    data: { revogadaEm: new Date() },
+  })
+}
+
 router.post("/", async (req, res) => {
-  const { email, senha } = req.body
+  const { email, senha, dispositivo } = req.body
 
   const mensagemPadrao = "Login ou senha incorretos"
 
@@ -27,17 +75,28 @@ router.post("/", async (req, res) => {
       return res.status(400).json({ erro: mensagemPadrao })
     }
 
-    const token = jwt.sign(
-      { usuarioLogadoId: usuario.id, usuarioLogadoNome: usuario.nome },
-      process.env.JWT_KEY as string,
-      { expiresIn: "1h" }
-    )
+    if (usuario.bloqueado) {
+      return res.status(403).json({ erro: "Conta bloqueada. Entre em contato com o suporte" })
+    }
+
+    const familia = crypto.randomUUID()
+
+    const refreshToken = await criarRefreshToken(prisma, {
+      usuarioId: usuario.id,
+      familia,
+      iniciadaEm: new Date(),
+      dispositivo: typeof dispositivo === "string" ? dispositivo : null,
+      userAgent: req.get("user-agent") ?? null,
+    })
+
+    const token = gerarTokenAcesso(usuario, familia)
 
     res.status(200).json({
       id: usuario.id,
       nome: usuario.nome,
       email: usuario.email,
-      token
+      token,
+      refreshToken
     })
   } catch (error) {
     console.error("Erro no login:", error)
@@ -45,4 +104,192 @@ router.post("/", async (req, res) => {
   }
 })
 
+router.post("/refresh", async (req, res) => {
+  const { refreshToken } = req.body
+
+  const mensagemPadrao = "Sessão inválida ou expirada"
+
+  if (!refreshToken) {
+    return res.status(401).json({ erro: mensagemPadrao })
+  }
+
+  try {
+    const sessao = await prisma.sessao.findUnique({
+      where: { refreshTokenHash: hashToken(refreshToken) },
+      include: { usuario: true },
+    })
+
+    if (!sessao || sessao.revogadaEm || sessao.expiraEm < new Date() || sessao.usuario.bloqueado) {
+      return res.status(401).json({ erro: mensagemPadrao })
+    }
+
+    // Token já rotacionado sendo reapresentado: provável vazamento, derruba a sessão inteira
+    if (sessao.rotacionadoEm) {
+      await revogarFamilia(sessao.familia)
+      return res.status(401).json({ erro: mensagemPadrao })
+    }
+
+    const novoRefreshToken = await prisma.$transaction(async (transacao) => {
+      const rotacionado = await transacao.sessao.updateMany({
+        where: { id: sessao.id, rotacionadoEm: null },
+        data: { rotacionadoEm: new Date() },
+      })
+
+      // Outra requisição rotacionou o mesmo token ao mesmo tempo
+      if (rotacionado.count === 0) {
+        return null
+      }
+
+      return criarRefreshToken(transacao, {
+        usuarioId: sessao.usuarioId,
+        familia: sessao.familia,
+        iniciadaEm: sessao.iniciadaEm,
+        dispositivo: sessao.dispositivo,
+        userAgent: req.get("user-agent") ?? sessao.userAgent,
+      })
+    })
+
+    if (!novoRefreshToken) {
+      await revogarFamilia(sessao.familia)
+      return res.status(401).json({ erro: mensagemPadrao })
+    }
+
+    const token = gerarTokenAcesso(sessao.usuario, sessao.familia)
+
+    res.status(200).json({ token, refreshToken: novoRefreshToken })
+  } catch (error) {
+    console.error("Erro ao renovar sessão:", error)
+    res.status(500).json({ erro: "Erro ao renovar sessão" })
+  }
+})
+
+router.post("/logout", async (req, res) => {
+  const { refreshToken } = req.body
+
+  try {
+    if (refreshToken) {
+      const sessao = await prisma.sessao.findUnique({
+        where: { refreshTokenHash: hashToken(refreshToken) },
+      })
+
+      if (sessao) {
+        await revogarFamilia(sessao.familia)
+      }
+    }
+
+    res.status(204).send()
+  } catch (error) {
+    console.error("Erro no logout:", error)
+    res.status(500).json({ erro: "Erro ao processar logout" })
+  }
+})
+
+// Gera o token e manda o link; roda depois da resposta de /esqueci-senha
+async function enviarLinkRedefinicao(usuario: { id: string; nome: string; email: string }) {
+  const token = crypto.randomBytes(32).toString("hex")
+
+  await prisma.tokenRedefinicaoSenha.create({
+    data: {
+      tokenHash: hashToken(token),
+      expiraEm: new Date(Date.now() + EXPIRACAO_TOKEN_SENHA_MINUTOS * 60 * 1000),
+      usuarioId: usuario.id,
+    },
+  })
+
+  const link = `${process.env.APP_URL ?? ""}/redefinir-senha?token=${token}`
+
+  await enviarEmail(
+    usuario.email,
+    "Redefinição de senha - Minha Renda",
+    `Olá, ${usuario.nome}.\n\n` +
+      `Para redefinir sua senha, acesse: ${link}\n\n` +
+      `O link vale por ${EXPIRACAO_TOKEN_SENHA_MINUTOS} minutos e só pode ser usado uma vez. ` +
+      `Se você não pediu a redefinição, ignore este e-mail.`
+  )
+}
+
+router.post("/esqueci-senha", async (req, res) => {
+  const { email } = req.body
+
+  // Mesma resposta para e-mail cadastrado ou não, para não revelar quem tem conta
+  const mensagemPadrao = "Se o e-mail estiver cadastrado, você receberá as instruções para redefinir a senha"
+
+  if (!email) {
+    return res.status(400).json({ erro: "Informe o e-mail" })
+  }
+
+  try {
+    const usuario = await prisma.usuario.findFirst({ where: { email } })
+
+    // Responde antes de gravar o token e enviar o e-mail: o tempo de resposta
+    // também não pode revelar se a conta existe
+    res.status(200).json({ mensagem: mensagemPadrao })
+
+    if (usuario) {
+      enviarLinkRedefinicao(usuario).catch((error) =>
+        console.error("Erro ao enviar e-mail de redefinição:", error)
+      )
+    }
+  } catch (error) {
+    console.error("Erro ao solicitar redefinição de senha:", error)
+    res.status(500).json({ erro: "Erro ao processar solicitação" })
+  }
+})
+
+router.post("/redefinir-senha", async (req, res) => {
+  const { token, senha } = req.body
+
+  const mensagemPadrao = "Token inválido ou expirado"
+
+  if (!token || !senha) {
+    return res.status(400).json({ erro: mensagemPadrao })
+  }
+
+  const errosSenha = validaSenha(senha)
+  if (errosSenha.length > 0) {
+    return res.status(400).json({ erro: errosSenha })
+  }
+
+  try {
+    const tokenSenha = await prisma.tokenRedefinicaoSenha.findUnique({
+      where: { tokenHash: hashToken(token) },
+    })
+
+    if (!tokenSenha || tokenSenha.usadoEm || tokenSenha.expiraEm < new Date()) {
+      return res.status(400).json({ erro: mensagemPadrao })
+    }
+
+    const senhaCriptografada = bcrypt.hashSync(senha, 12)
+
+    await prisma.$transaction([
+      // Marca como usado só se ninguém usou antes (duas requisições simultâneas)
+      prisma.tokenRedefinicaoSenha.update({
+        where: { id: tokenSenha.id, usadoEm: null },
+        data: { usadoEm: new Date() },
+      }),
+      prisma.usuario.update({
+        where: { id: tokenSenha.usuarioId },
+        data: { senha: senhaCriptografada },
+      }),
+      // Demais links pendentes do usuário deixam de valer
+      prisma.tokenRedefinicaoSenha.deleteMany({
+        where: { usuarioId: tokenSenha.usuarioId, usadoEm: null, id: { not: tokenSenha.id } },
+      }),
+      // Senha nova desconecta todos os dispositivos
+      prisma.sessao.updateMany({
+        where: { usuarioId: tokenSenha.usuarioId, revogadaEm: null },
+        data: { revogadaEm: new Date() },
+      }),
+    ])
+
+    res.status(200).json({ mensagem: "Senha redefinida com sucesso" })
+  } catch (error: any) {
+    if (error.code === "P2025") {
+      return res.status(400).json({ erro: mensagemPadrao })
+    }
+    console.error("Erro ao redefinir senha:", error)
+    res.status(500).json({ erro: "Erro ao redefinir senha" })
+  }
+})
+
 export default router
\ No newline at end of file
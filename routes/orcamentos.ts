@@ -0,0 +1,147 @@
+import { PrismaClient } from "@prisma/client";
+import { Router } from "express";
+import { z } from "zod";
+import { resumoOrcamentos } from "../utils/orcamentos";
+
+const prisma = new PrismaClient();
+const router = Router();
+
+const orcamentoSchema = z.object({
+  categoriaId: z.coerce.number().int().positive(),
+  valorMensal: z.coerce.number().positive({ message: "Valor mensal deve ser positivo" }),
+});
+
+const edicaoSchema = orcamentoSchema.pick({ valorMensal: true });
+
+const mesSchema = z
+  .string()
+  .regex(/^\d{4}-(0[1-9]|1[0-2])$/, { message: "Use o mês no formato AAAA-MM" });
+
+router.get("/", async (req, res) => {
+  try {
+    const orcamentos = await prisma.orcamento.findMany({
+      where: { usuarioId: req.usuarioLogadoId },
+      include: { categoria: true },
+      orderBy: { categoria: { nome: "asc" } },
+    });
+    res.status(200).json(orcamentos);
+  } catch (error) {
+    console.error("Erro ao listar orçamentos:", error);
+    res.status(500).json({ erro: "Erro ao listar orçamentos" });
+  }
+});
+
+/**
+ * GET /orcamentos/:mes (AAAA-MM)
+ * Planejado, gasto, restante e percentual usado de cada categoria no mês
+ */
+router.get("/:mes", async (req, res) => {
+  const parseResult = mesSchema.safeParse(req.params.mes);
+  if (!parseResult.success) {
+    return res.status(400).json({ erro: parseResult.error.flatten() });
+  }
+
+  const [ano, mes] = parseResult.data.split("-").map(Number);
+
+  try {
+    const usuario = await prisma.usuario.findUniqueOrThrow({
+      where: { id: req.usuarioLogadoId },
+      select: { fusoHorario: true },
+    });
+
+    const categorias = await resumoOrcamentos(req.usuarioLogadoId, ano, mes - 1, usuario.fusoHorario);
+
+    const planejado = categorias.reduce((acc, c) => acc + c.planejado, 0);
+    const gasto = categorias.reduce((acc, c) => acc + c.gasto, 0);
+
+    res.status(200).json({
+      mes: parseResult.data,
+      planejado: Number(planejado.toFixed(2)),
+      gasto: Number(gasto.toFixed(2)),
+      restante: Number((planejado - gasto).toFixed(2)),
+      categorias,
+    });
+  } catch (error) {
+    console.error("Erro ao calcular orçamentos do mês:", error);
+    res.status(500).json({ erro: "Erro ao calcular orçamentos do mês" });
+  }
+});
+
+router.post("/", async (req, res) => {
+  const parseResult = orcamentoSchema.safeParse(req.body);
+  if (!parseResult.success) {
+    return res.status(400).json({ erro: parseResult.error.flatten() });
+  }
+
+  const { categoriaId, valorMensal } = parseResult.data;
+
+  try {
+    const categoria = await prisma.categoria.findFirst({
+      where: { id: categoriaId, usuarioId: req.usuarioLogadoId },
+      select: { tipo: true },
+    });
+
+    if (!categoria) {
+      return res.status(400).json({ erro: "Categoria não encontrada" });
+    }
+
+    if (categoria.tipo !== "DESPESA") {
+      return res.status(400).json({ erro: "Orçamento só pode ser definido para categorias de despesa" });
+    }
+
+    const orcamento = await prisma.orcamento.create({
+      data: { categoriaId, valorMensal, usuarioId: req.usuarioLogadoId },
+      include: { categoria: true },
+    });
+    res.status(201).json(orcamento);
+  } catch (error: any) {
+    if (error.code === "P2002") {
+      return res.status(409).json({ erro: "Essa categoria já tem orçamento" });
+    }
+    console.error("Erro ao criar orçamento:", error);
+    res.status(400).json({ erro: "Erro ao criar orçamento" });
+  }
+});
+
+router.put("/:id", async (req, res) => {
+  const { id } = req.params;
+
+  const parseResult = edicaoSchema.safeParse(req.body);
+  if (!parseResult.success) {
+    return res.status(400).json({ erro: parseResult.error.flatten() });
+  }
+
+  try {
+    const orcamento = await prisma.orcamento.update({
+      where: { id: Number(id), usuarioId: req.usuarioLogadoId },
+      data: parseResult.data,
+      include: { categoria: true },
+    });
+    res.status(200).json(orcamento);
+  } catch (error: any) {
+    if (error.code === "P2025") {
+      return res.status(404).json({ erro: "Orçamento não encontrado" });
+    }
+    console.error("Erro ao atualizar orçamento:", error);
+    res.status(400).json({ erro: "Erro ao atualizar orçamento" });
+  }
+});
+
+router.delete("/:id", async (req, res) => {
+  const { id } = req.params;
+
+  try {
+    const orcamento = await prisma.orcamento.delete({
+      where: { id: Number(id), usuarioId: req.usuarioLogadoId },
+    });
+    res.status(200).json(orcamento);
+  } catch (error: any) {
+    if (error.code === "P2025") {
+      return res.status(404).json({ erro: "Orçamento não encontrado" });
+    }
+    console.error("Erro ao excluir orçamento:", error);
+    res.status(400).json({ erro: "Erro ao excluir orçamento" });
+  }
+});
+
+export default router;
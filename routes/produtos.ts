@@ -1,15 +1,56 @@
 import { Router } from "express";
-import { PrismaClient, Unidade, Categoria_Estoque } from "@prisma/client";
+import { PrismaClient, Prisma, Unidade, Categoria_Estoque } from "@prisma/client";
 import { z } from "zod";
+import { completarSaldosIniciais, registrarMovimento } from "../utils/movimentoEstoque";
+import { AlertaEstoqueBaixo, notificarTodos } from "../utils/notificacoes";
+import {
+  SIGLAS_RESERVADAS,
+  UnidadeInvalidaError,
+  converterParaBase,
+  formatarProdutoParaExibicao,
+  quantidadeParaBase,
+  quantidadeParaExibicao,
+} from "../utils/unidades";
+import { comCustoDoKit, producaoPossivel } from "../utils/composicao";
+import { removerDoArmazenamento } from "../utils/arquivos";
+import { verificarLimitePlano } from "../utils/planos";
+import { resolverCategoria } from "../utils/categorias";
+import {
+  filtroProdutosSchema,
+  intervaloDoFiltro,
+  whereProdutos,
+  argsPaginacao,
+  montarPagina,
+} from "../utils/filtros";
 
 const prisma = new PrismaClient();
 const router = Router();
 
+// "CX = 12 UN": fator na unidade de exibição do produto (un, kg ou L)
+const unidadeAlternativaSchema = z.object({
+  sigla: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .regex(/^[A-Z0-9]{1,6}$/, { message: "Sigla deve ter até 6 letras ou números" })
+    .refine((sigla) => !SIGLAS_RESERVADAS.includes(sigla), { message: "Sigla reservada" }),
+  fator: z.coerce.number().positive({ message: "Fator deve ser positivo" }),
+});
+
+const unidadesAlternativasSchema = z
+  .array(unidadeAlternativaSchema)
+  .refine((lista) => new Set(lista.map((u) => u.sigla)).size === lista.length, {
+    message: "Sigla repetida",
+  });
+
 const criarProdutoSchema = z.object({
   nome: z.string().min(2, { message: "Nome deve ter pelo menos 2 caracteres" }),
   unidadeBase: z.nativeEnum(Unidade),
-  usuarioId: z.string(),
   categoria: z.nativeEnum(Categoria_Estoque).optional().nullable(),
+  // Ponto de reposição e estoque ideal em unidade de exibição (kg, L ou un)
+  estoqueMinimo: z.coerce.number().nonnegative().optional().nullable(),
+  estoqueIdeal: z.coerce.number().nonnegative().optional().nullable(),
+  unidadesAlternativas: unidadesAlternativasSchema.optional(),
 });
 
 const atualizarProdutoSchema = z.object({
@@ -20,60 +61,181 @@ const atualizarProdutoSchema = z.object({
   anexo: z.string().url().optional().nullable(),
   data: z.coerce.date().optional(),
   ativo: z.boolean().optional(),
+  motivo: z.string().optional(),
+  // Unidade de exibição, como no cadastro; null remove o alerta
+  estoqueMinimo: z.coerce.number().nonnegative().optional().nullable(),
+  estoqueIdeal: z.coerce.number().nonnegative().optional().nullable(),
+  // Substitui a lista inteira
+  unidadesAlternativas: unidadesAlternativasSchema.optional(),
 });
 
-function formatarProdutoParaExibicao(produto: any) {
-  let unidadeDisplay = "un";
-  let saldoDisplay = Number(produto.saldoBase ?? 0);
-  let precoMedioDisplay = Number(produto.custoMedio ?? 0);
+// Entrada de compra: quantidade em unidade de exibição (kg, L ou un) ou em uma
+// unidade alternativa do produto (unidade: "CX")
+const entradaEstoqueSchema = z.object({
+  quantidade: z.coerce.number().positive({ message: "Quantidade deve ser positiva" }),
+  unidade: z.string().optional(),
+  custoTotal: z.coerce.number().nonnegative({ message: "Custo total não pode ser negativo" }),
+  data: z.coerce.date().optional(),
+  registrarDespesa: z.boolean().optional(),
+  descricao: z.string().min(2).optional(),
+  categoria: z.string().min(2).optional(),
+  // Categoria cadastrada da despesa de compra (ver resolverCategoria)
+  categoriaId: z.coerce.number().int().positive().optional(),
+});
 
-  // Conversão de gramas pra KG (preço e quantidade estoque).
-  if (produto.unidadeBase === "G") {
-    unidadeDisplay = "kg";
-    saldoDisplay = Number((saldoDisplay / 1000).toFixed(3));
-    precoMedioDisplay = Number((precoMedioDisplay * 1000).toFixed(6));
-  }
-  // Conversão de milimitros pra L (preço e quantidade estoque).
-  else if (produto.unidadeBase === "ML") {
-    unidadeDisplay = "L";
-    saldoDisplay = Number((saldoDisplay / 1000).toFixed(3));
-    precoMedioDisplay = Number((precoMedioDisplay * 1000).toFixed(6));
-  }
-  else {
-    unidadeDisplay = "un";
+// Ajuste de estoque (perda, quebra, inventário): quantidade com sinal, em unidade de exibição
+const ajusteEstoqueSchema = z.object({
+  quantidade: z.coerce.number().refine((valor) => valor !== 0, {
+    message: "Quantidade não pode ser zero",
+  }),
+  unidade: z.string().optional(),
+  motivo: z.string().min(2, { message: "Informe o motivo do ajuste" }),
+});
+
+// Ficha técnica: quantidade de cada componente na unidade base dele, por unidade base do kit
+const composicaoSchema = z.object({
+  componentes: z
+    .array(
+      z.object({
+        produtoId: z.coerce.number().int().positive(),
+        qtdBase: z.coerce.number().positive({ message: "Quantidade deve ser positiva" }),
+      })
+    )
+    .refine((lista) => new Set(lista.map((c) => c.produtoId)).size === lista.length, {
+      message: "Componente repetido",
+    }),
+});
+
+const movimentosFiltroSchema = z.object({
+  de: z.coerce.date().optional(),
+  ate: z.coerce.date().optional(),
+});
+
+const reconciliacaoSchema = z.object({
+  aplicar: z.boolean().optional(),
+});
+
+// null/undefined passam direto: null limpa o campo, undefined não mexe
+function limiteParaBase(valor: number | null | undefined, unidadeBase: Unidade) {
+  return valor == null ? valor : converterParaBase(valor, unidadeBase);
+}
+
+function unidadesParaBase(lista: z.infer<typeof unidadesAlternativasSchema>, unidadeBase: Unidade) {
+  return lista.map((u) => ({ sigla: u.sigla, fatorBase: converterParaBase(u.fator, unidadeBase) }));
+}
+
+const incluirUnidades = { unidadesAlternativas: { orderBy: { sigla: "asc" } } } as const;
+
+const incluirComponentes = {
+  componentes: {
+    include: { componente: { select: { id: true, nome: true, unidadeBase: true, saldoBase: true, custoMedio: true } } },
+    orderBy: { id: "asc" },
+  },
+} as const;
+
+// Kit com componentes, custo derivado e quanto dá para produzir com o estoque atual
+async function detalharComposicao(kitId: number, usuarioId: string) {
+  const kit = await prisma.produto.findFirst({
+    where: { id: kitId, usuarioId },
+    include: incluirComponentes,
+  });
+
+  if (!kit) {
+    return null;
   }
 
+  const producao = producaoPossivel(kit.componentes);
+
   return {
-    ...produto,
-    saldoDisplay,
-    unidadeDisplay,
-    precoMedioDisplay,
+    produto: formatarProdutoParaExibicao(comCustoDoKit(kit)),
+    componentes: kit.componentes.map(({ componente, quantidade }) => ({
+      produtoId: componente.id,
+      nome: componente.nome,
+      qtdBase: Number(quantidade),
+      ...quantidadeParaExibicao(quantidade, componente.unidadeBase),
+      custo: Number((Number(quantidade) * Number(componente.custoMedio)).toFixed(6)),
+    })),
+    producaoPossivel: {
+      qtdBase: producao.quantidade,
+      ...quantidadeParaExibicao(producao.quantidade, kit.unidadeBase),
+      limitante: producao.limitante,
+    },
   };
 }
 
 router.get("/:usuarioId", async (req, res) => {
-  const { usuarioId } = req.params;
+  const usuarioId = req.usuarioLogadoId;
+
+  try {
+    const filtro = filtroProdutosSchema.parse(req.query);
+    const intervalo = await intervaloDoFiltro(usuarioId, filtro);
+    const where = whereProdutos(usuarioId, filtro, intervalo);
+
+    const [produtos, total] = await Promise.all([
+      prisma.produto.findMany({
+        where,
+        include: { ...incluirUnidades, ...incluirComponentes },
+        ...argsPaginacao(filtro, filtro.ordenarPor),
+      }),
+      prisma.produto.count({ where }),
+    ]);
+
+    res.json(
+      montarPagina(produtos, total, filtro.limite, (produto) => formatarProdutoParaExibicao(comCustoDoKit(produto)))
+    );
+  } catch (erro) {
+    console.error(erro);
+
+    if (erro instanceof z.ZodError) {
+      return res
+        .status(400)
+        .json({ erro: "Dados inválidos", detalhes: erro.errors });
+    }
+
+    res.status(500).json({ erro: "Erro ao listar produtos" });
+  }
+});
 
+/**
+ * GET /produtos/:usuarioId/alertas
+ * Produtos ativos abaixo do estoque mínimo, com a quantidade sugerida para
+ * voltar ao estoque ideal (ou ao mínimo, se não houver ideal) e o custo estimado
+ * da reposição pelo custo médio atual.
+ */
+router.get("/:usuarioId/alertas", async (req, res) => {
   try {
     const produtos = await prisma.produto.findMany({
       where: {
-        usuarioId,
+        usuarioId: req.usuarioLogadoId,
         ativo: true,
+        estoqueMinimo: { not: null },
+        saldoBase: { lt: prisma.produto.fields.estoqueMinimo },
       },
-      orderBy: { createdAt: "desc" },
+      orderBy: { nome: "asc" },
     });
 
-    const produtosFormatados = produtos.map(formatarProdutoParaExibicao);
+    const alertas = produtos.map((produto) => {
+      const minimo = Number(produto.estoqueMinimo);
+      const alvo = Math.max(Number(produto.estoqueIdeal ?? 0), minimo);
+      const reposicaoBase = alvo - Number(produto.saldoBase);
+
+      return {
+        ...formatarProdutoParaExibicao(produto),
+        reposicaoSugeridaBase: reposicaoBase,
+        reposicaoSugeridaDisplay: quantidadeParaExibicao(reposicaoBase, produto.unidadeBase).quantidade,
+        custoEstimadoReposicao: Number((reposicaoBase * Number(produto.custoMedio)).toFixed(2)),
+      };
+    });
 
-    res.json(produtosFormatados);
+    res.json(alertas);
   } catch (erro) {
     console.error(erro);
-    res.status(500).json({ erro: "Erro ao listar produtos" });
+    res.status(500).json({ erro: "Erro ao listar alertas de estoque" });
   }
 });
 
 router.get("/top/10/:usuarioId", async (req, res) => {
-  const { usuarioId } = req.params;
+  const usuarioId = req.usuarioLogadoId;
 
   try {
     const itensVendidos = await prisma.receitaItem.groupBy({
@@ -134,16 +296,27 @@ router.post("/", async (req, res) => {
   try {
     const dadosValidados = criarProdutoSchema.parse(req.body);
 
+    const limiteAtingido = await verificarLimitePlano(req.usuarioLogadoId, "produtos");
+    if (limiteAtingido) {
+      return res.status(402).json(limiteAtingido);
+    }
+
     const novoProduto = await prisma.produto.create({
       data: {
         nome: dadosValidados.nome,
         unidadeBase: dadosValidados.unidadeBase,
-        usuarioId: dadosValidados.usuarioId,
+        usuarioId: req.usuarioLogadoId,
         categoria: dadosValidados.categoria ?? null,
         saldoBase: 0,
         custoMedio: 0,  
+        estoqueMinimo: limiteParaBase(dadosValidados.estoqueMinimo, dadosValidados.unidadeBase),
+        estoqueIdeal: limiteParaBase(dadosValidados.estoqueIdeal, dadosValidados.unidadeBase),
         ativo: true,
+        unidadesAlternativas: {
+          create: unidadesParaBase(dadosValidados.unidadesAlternativas ?? [], dadosValidados.unidadeBase),
+        },
       },
+      include: incluirUnidades,
     });
 
     res.status(201).json(formatarProdutoParaExibicao(novoProduto));
@@ -160,6 +333,413 @@ router.post("/", async (req, res) => {
   }
 });
 
+router.post("/:id/entradas", async (req, res) => {
+  const { id } = req.params;
+
+  try {
+    const entrada = entradaEstoqueSchema.parse(req.body);
+    const dataEntrada = entrada.data ?? new Date();
+
+    const categoria = entrada.registrarDespesa
+      ? await resolverCategoria(req.usuarioLogadoId, "DESPESA", entrada)
+      : null;
+    if (entrada.registrarDespesa && !categoria) {
+      return res.status(400).json({ erro: "Categoria não encontrada" });
+    }
+
+    const resultado = await prisma.$transaction(async (transacao) => {
+      // Trava o produto para entradas e vendas simultâneas não calcularem o
+      // custo médio sobre o mesmo saldo
+      const travado = await transacao.$queryRaw<{ id: number }[]>(
+        Prisma.sql`SELECT "id" FROM "produtos" WHERE "id" = ${Number(id)} AND "usuarioId" = ${req.usuarioLogadoId} FOR UPDATE`
+      );
+      if (travado.length === 0) {
+        return null;
+      }
+
+      const produto = await transacao.produto.findUniqueOrThrow({
+        where: { id: Number(id) },
+        include: { unidadesAlternativas: true },
+      });
+
+      const qtdBase = quantidadeParaBase(entrada.quantidade, produto, entrada.unidade);
+      const saldoAtual = Number(produto.saldoBase);
+      const custoAtual = Number(produto.custoMedio);
+      const novoSaldo = saldoAtual + qtdBase;
+
+      // Média ponderada móvel; com saldo zerado/negativo o custo da compra vira o novo custo médio
+      const novoCustoMedio =
+        saldoAtual > 0
+          ? (saldoAtual * custoAtual + entrada.custoTotal) / novoSaldo
+          : entrada.custoTotal / qtdBase;
+
+      const produtoAtualizado = await transacao.produto.update({
+        where: { id: produto.id },
+        data: {
+          saldoBase: { increment: qtdBase },
+          custoMedio: novoCustoMedio,
+        },
+        include: incluirUnidades,
+      });
+
+      await registrarMovimento(transacao, {
+        produtoId: produto.id,
+        usuarioId: req.usuarioLogadoId,
+        tipo: "ENTRADA",
+        quantidade: qtdBase,
+        motivo: entrada.descricao ?? "Entrada de compra",
+      });
+
+      let despesa = null;
+      if (entrada.registrarDespesa && entrada.custoTotal > 0) {
+        despesa = await transacao.despesa.create({
+          data: {
+            descricao: entrada.descricao ?? `Compra de ${produto.nome}`,
+            valor: entrada.custoTotal,
+            ...categoria,
+            data: dataEntrada,
+            usuarioId: req.usuarioLogadoId,
+          },
+        });
+      }
+
+      return { produto: produtoAtualizado, despesa };
+    });
+
+    if (!resultado) {
+      return res.status(404).json({ erro: "Produto não encontrado" });
+    }
+
+    res.status(201).json({
+      produto: formatarProdutoParaExibicao(resultado.produto),
+      despesa: resultado.despesa,
+    });
+  } catch (erro: any) {
+    console.error(erro);
+
+    if (erro instanceof z.ZodError) {
+      return res
+        .status(400)
+        .json({ erro: "Dados inválidos", detalhes: erro.errors });
+    }
+
+    if (erro instanceof UnidadeInvalidaError) {
+      return res.status(400).json({ erro: erro.message });
+    }
+
+    res.status(500).json({ erro: "Erro ao registrar entrada de estoque" });
+  }
+});
+
+router.post("/:id/ajustes", async (req, res) => {
+  const { id } = req.params;
+
+  try {
+    const ajuste = ajusteEstoqueSchema.parse(req.body);
+    const alertasEstoque: AlertaEstoqueBaixo[] = [];
+
+    const produtoAtualizado = await prisma.$transaction(async (transacao) => {
+      const produto = await transacao.produto.findFirst({
+        where: { id: Number(id), usuarioId: req.usuarioLogadoId },
+        include: { unidadesAlternativas: true },
+      });
+
+      if (!produto) {
+        return null;
+      }
+
+      const qtdBase = quantidadeParaBase(ajuste.quantidade, produto, ajuste.unidade);
+
+      const atualizado = await transacao.produto.update({
+        where: { id: produto.id },
+        data: {
+          saldoBase: { increment: qtdBase },
+        },
+        include: incluirUnidades,
+      });
+
+      const { alertaEstoque } = await registrarMovimento(transacao, {
+        produtoId: produto.id,
+        usuarioId: req.usuarioLogadoId,
+        tipo: "AJUSTE",
+        quantidade: qtdBase,
+        motivo: ajuste.motivo,
+      });
+      if (alertaEstoque) {
+        alertasEstoque.push(alertaEstoque);
+      }
+
+      return atualizado;
+    });
+
+    if (!produtoAtualizado) {
+      return res.status(404).json({ erro: "Produto não encontrado" });
+    }
+
+    await notificarTodos("estoqueBaixo", alertasEstoque);
+
+    res.status(201).json(formatarProdutoParaExibicao(produtoAtualizado));
+  } catch (erro: any) {
+    console.error(erro);
+
+    if (erro instanceof z.ZodError) {
+      return res
+        .status(400)
+        .json({ erro: "Dados inválidos", detalhes: erro.errors });
+    }
+
+    if (erro instanceof UnidadeInvalidaError) {
+      return res.status(400).json({ erro: erro.message });
+    }
+
+    res.status(500).json({ erro: "Erro ao ajustar estoque" });
+  }
+});
+
+router.get("/:id/movimentos", async (req, res) => {
+  const { id } = req.params;
+
+  try {
+    const filtro = movimentosFiltroSchema.parse(req.query);
+
+    const produto = await prisma.produto.findFirst({
+      where: { id: Number(id), usuarioId: req.usuarioLogadoId },
+    });
+
+    if (!produto) {
+      return res.status(404).json({ erro: "Produto não encontrado" });
+    }
+
+    const movimentos = await prisma.movimentoEstoque.findMany({
+      where: {
+        produtoId: produto.id,
+        createdAt: {
+          gte: filtro.de,
+          lte: filtro.ate,
+        },
+      },
+      orderBy: { createdAt: "desc" },
+    });
+
+    res.json({
+      produto: formatarProdutoParaExibicao(produto),
+      movimentos,
+    });
+  } catch (erro: any) {
+    console.error(erro);
+
+    if (erro instanceof z.ZodError) {
+      return res
+        .status(400)
+        .json({ erro: "Dados inválidos", detalhes: erro.errors });
+    }
+
+    res.status(500).json({ erro: "Erro ao listar movimentos de estoque" });
+  }
+});
+
+/**
+ * GET /produtos/:id/composicao
+ * Componentes do kit/receita, custo de cada um e custo total derivado.
+ */
+router.get("/:id/composicao", async (req, res) => {
+  try {
+    const detalhe = await detalharComposicao(Number(req.params.id), req.usuarioLogadoId);
+
+    if (!detalhe) {
+      return res.status(404).json({ erro: "Produto não encontrado" });
+    }
+
+    res.json(detalhe);
+  } catch (erro) {
+    console.error(erro);
+    res.status(500).json({ erro: "Erro ao consultar composição" });
+  }
+});
+
+/**
+ * PUT /produtos/:id/composicao
+ * Substitui a ficha técnica do produto. Lista vazia deixa de ser kit.
+ * Um nível só: kit não entra como componente de outro kit.
+ */
+router.put("/:id/composicao", async (req, res) => {
+  const kitId = Number(req.params.id);
+  const usuarioId = req.usuarioLogadoId;
+
+  try {
+    const { componentes } = composicaoSchema.parse(req.body);
+
+    const kit = await prisma.produto.findFirst({
+      where: { id: kitId, usuarioId },
+      select: { id: true, _count: { select: { usadoEmKits: true } } },
+    });
+
+    if (!kit) {
+      return res.status(404).json({ erro: "Produto não encontrado" });
+    }
+
+    if (componentes.length > 0 && kit._count.usadoEmKits > 0) {
+      return res.status(400).json({ erro: "Produto é componente de outro kit e não pode ter composição" });
+    }
+
+    if (componentes.some((c) => c.produtoId === kitId)) {
+      return res.status(400).json({ erro: "Produto não pode ser componente de si mesmo" });
+    }
+
+    const encontrados = await prisma.produto.findMany({
+      where: { id: { in: componentes.map((c) => c.produtoId) }, usuarioId },
+      select: { id: true, _count: { select: { componentes: true } } },
+    });
+
+    const invalidos = componentes
+      .map((c) => {
+        const produto = encontrados.find((p) => p.id === c.produtoId);
+        if (!produto) return { produtoId: c.produtoId, erro: "Produto não encontrado" };
+        if (produto._count.componentes > 0) return { produtoId: c.produtoId, erro: "Kit não pode ser componente" };
+        return null;
+      })
+      .filter((erro) => erro != null);
+
+    if (invalidos.length > 0) {
+      return res.status(400).json({ erro: "Componentes inválidos", componentes: invalidos });
+    }
+
+    await prisma.$transaction([
+      prisma.composicaoProduto.deleteMany({ where: { kitId } }),
+      prisma.composicaoProduto.createMany({
+        data: componentes.map((c) => ({ kitId, componenteId: c.produtoId, quantidade: c.qtdBase })),
+      }),
+    ]);
+
+    res.json(await detalharComposicao(kitId, usuarioId));
+  } catch (erro: any) {
+    console.error(erro);
+
+    if (erro instanceof z.ZodError) {
+      return res
+        .status(400)
+        .json({ erro: "Dados inválidos", detalhes: erro.errors });
+    }
+
+    res.status(500).json({ erro: "Erro ao salvar composição" });
+  }
+});
+
+/**
+ * GET /produtos/:id/producao
+ * Quantas unidades do kit dá para montar com o estoque atual dos componentes
+ * e qual deles acaba primeiro.
+ */
+router.get("/:id/producao", async (req, res) => {
+  try {
+    const detalhe = await detalharComposicao(Number(req.params.id), req.usuarioLogadoId);
+
+    if (!detalhe) {
+      return res.status(404).json({ erro: "Produto não encontrado" });
+    }
+
+    if (detalhe.componentes.length === 0) {
+      return res.status(400).json({ erro: "Produto não tem composição" });
+    }
+
+    res.json({ produtoId: detalhe.produto.id, nome: detalhe.produto.nome, ...detalhe.producaoPossivel });
+  } catch (erro) {
+    console.error(erro);
+    res.status(500).json({ erro: "Erro ao calcular produção possível" });
+  }
+});
+
+/**
+ * POST /produtos/reconciliar
+ * Compara o saldoBase de cada produto com a soma do histórico de movimentos.
+ * Com { aplicar: true } o saldoBase é reescrito a partir do histórico.
+ * Produtos sem nenhum movimento recebem um SALDO_INICIAL com o saldo atual, e
+ * históricos que começaram sem SALDO_INICIAL recebem o saldo de antes do
+ * primeiro movimento, para o estoque anterior ao histórico não se perder.
+ */
+router.post("/reconciliar", async (req, res) => {
+  try {
+    const { aplicar } = reconciliacaoSchema.parse(req.body ?? {});
+    const usuarioId = req.usuarioLogadoId;
+
+    const diferencas = await prisma.$transaction(async (transacao) => {
+      // Antes da soma, para o aplicar nunca reescrever um saldo sem o estoque de abertura
+      const saldosIniciais = await completarSaldosIniciais(transacao, usuarioId, aplicar ?? false);
+
+      const produtos = await transacao.produto.findMany({
+        where: { usuarioId },
+        select: { id: true, nome: true, saldoBase: true },
+      });
+
+      const somas = await transacao.movimentoEstoque.groupBy({
+        by: ["produtoId"],
+        where: { usuarioId },
+        _sum: { quantidade: true },
+      });
+
+      const resultado = [];
+
+      for (const produto of produtos) {
+        const soma = somas.find((s) => s.produtoId === produto.id);
+        const saldoAtual = Number(produto.saldoBase);
+
+        if (!soma) {
+          if (aplicar && saldoAtual !== 0) {
+            await registrarMovimento(transacao, {
+              produtoId: produto.id,
+              usuarioId,
+              tipo: "SALDO_INICIAL",
+              quantidade: saldoAtual,
+              motivo: "Saldo anterior ao histórico",
+            });
+          }
+          continue;
+        }
+
+        // Sem aplicar, o saldo inicial que faltava ainda não está na soma
+        const saldoInicialFaltando = aplicar ? 0 : saldosIniciais.get(produto.id) ?? 0;
+        const saldoHistorico = Number(
+          (Number(soma._sum.quantidade ?? 0) + saldoInicialFaltando).toFixed(6)
+        );
+        const diferenca = Number((saldoAtual - saldoHistorico).toFixed(6));
+
+        if (diferenca === 0) {
+          continue;
+        }
+
+        if (aplicar) {
+          await transacao.produto.update({
+            where: { id: produto.id },
+            data: { saldoBase: saldoHistorico },
+          });
+        }
+
+        resultado.push({
+          produtoId: produto.id,
+          nome: produto.nome,
+          saldoAtual,
+          saldoHistorico,
+          diferenca,
+        });
+      }
+
+      return resultado;
+    });
+
+    res.json({ aplicado: aplicar ?? false, diferencas });
+  } catch (erro: any) {
+    console.error(erro);
+
+    if (erro instanceof z.ZodError) {
+      return res
+        .status(400)
+        .json({ erro: "Dados inválidos", detalhes: erro.errors });
+    }
+
+    res.status(500).json({ erro: "Erro ao reconciliar estoque" });
+  }
+});
+
 router.put("/:id", async (req, res) => {
   const { id } = req.params;
 
@@ -196,11 +776,74 @@ router.put("/:id", async (req, res) => {
       dadosAtualizacao.ativo = corpoValido.ativo;
     }
 
-    const produtoAtualizado = await prisma.produto.update({
-      where: { id: Number(id) },
-      data: dadosAtualizacao,
+    // Reativar um produto conta no limite de produtos ativos do plano
+    if (corpoValido.ativo === true) {
+      const produtoInativo = await prisma.produto.findFirst({
+        where: { id: Number(id), usuarioId: req.usuarioLogadoId, ativo: false },
+        select: { id: true },
+      });
+
+      if (produtoInativo) {
+        const limiteAtingido = await verificarLimitePlano(req.usuarioLogadoId, "produtos");
+        if (limiteAtingido) {
+          return res.status(402).json(limiteAtingido);
+        }
+      }
+    }
+
+    const alertasEstoque: AlertaEstoqueBaixo[] = [];
+
+    const produtoAtualizado = await prisma.$transaction(async (transacao) => {
+      // Trava o produto para uma venda simultânea não se perder na edição do saldo
+      const travado = await transacao.$queryRaw<{ id: number }[]>(
+        Prisma.sql`SELECT "id" FROM "produtos" WHERE "id" = ${Number(id)} AND "usuarioId" = ${req.usuarioLogadoId} FOR UPDATE`
+      );
+      if (travado.length === 0) {
+        return null;
+      }
+
+      const produtoAtual = await transacao.produto.findUniqueOrThrow({
+        where: { id: Number(id) },
+      });
+
+      const atualizado = await transacao.produto.update({
+        where: { id: produtoAtual.id },
+        data: {
+          ...dadosAtualizacao,
+          estoqueMinimo: limiteParaBase(corpoValido.estoqueMinimo, produtoAtual.unidadeBase),
+          estoqueIdeal: limiteParaBase(corpoValido.estoqueIdeal, produtoAtual.unidadeBase),
+          unidadesAlternativas: corpoValido.unidadesAlternativas && {
+            deleteMany: {},
+            create: unidadesParaBase(corpoValido.unidadesAlternativas, produtoAtual.unidadeBase),
+          },
+        },
+        include: incluirUnidades,
+      });
+
+      // Edição direta do saldo entra no histórico como a diferença aplicada
+      const diferenca = Number(atualizado.saldoBase) - Number(produtoAtual.saldoBase);
+      if (diferenca !== 0) {
+        const { alertaEstoque } = await registrarMovimento(transacao, {
+          produtoId: atualizado.id,
+          usuarioId: req.usuarioLogadoId,
+          tipo: "EDICAO_MANUAL",
+          quantidade: diferenca,
+          motivo: corpoValido.motivo ?? "Edição manual do saldo",
+        });
+        if (alertaEstoque) {
+          alertasEstoque.push(alertaEstoque);
+        }
+      }
+
+      return atualizado;
     });
 
+    if (!produtoAtualizado) {
+      return res.status(404).json({ erro: "Produto não encontrado" });
+    }
+
+    await notificarTodos("estoqueBaixo", alertasEstoque);
+
     res.json(formatarProdutoParaExibicao(produtoAtualizado));
   } catch (erro: any) {
     console.error(erro);
@@ -219,19 +862,25 @@ router.delete("/:id", async (req, res) => {
   const { id } = req.params;
 
   try {
-    const produtoExcluido = await prisma.produto.delete({
-      where: { id: Number(id) },
+    const { arquivos, ...produtoExcluido } = await prisma.produto.delete({
+      where: { id: Number(id), usuarioId: req.usuarioLogadoId },
+      include: { arquivos: true },
     });
 
+    await removerDoArmazenamento(arquivos);
     res.json(produtoExcluido);
   } catch (erro: any) {
     console.error(erro);
 
+    if (erro.code === "P2025") {
+      return res.status(404).json({ erro: "Produto não encontrado" });
+    }
+
     if (erro.code === "P2003") {
       return res.status(400).json({
         erro: "Erro ao excluir",
         detail:
-          "Não é possível excluir este produto porque ele já foi usado em receitas/vendas.",
+          "Não é possível excluir este produto porque ele já foi usado em receitas/vendas ou faz parte de um kit.",
       });
     }
 
@@ -1,11 +1,30 @@
-import { PrismaClient } from '@prisma/client'
+import { PrismaClient, Prisma } from '@prisma/client'
 import { Router } from 'express'
 import { z } from 'zod'
+import { registrarMovimento } from '../utils/movimentoEstoque'
+import { AlertaEstoqueBaixo, notificarTodos } from '../utils/notificacoes'
+import { fatorDaUnidade } from '../utils/unidades'
+import { consumoDeEstoque, custoDoKit } from '../utils/composicao'
+import { removerDoArmazenamento } from '../utils/arquivos'
+import { gerarReciboPdf, numerarRecibo } from '../utils/recibo'
+import { requireAdmin } from '../middlewares/requireAdmin'
+import { verificarLimitePlano } from '../utils/planos'
+import { hojeComoData } from '../utils/periodo'
+import { comSaldo, saldoDaReceita } from '../utils/fiado'
+import { comMargem, custosDasReceitas } from '../utils/margem'
+import { resolverCategoria } from '../utils/categorias'
+import {
+  filtroReceitasSchema,
+  intervaloDoFiltro,
+  whereReceitas,
+  argsPaginacao,
+  montarPagina,
+} from '../utils/filtros'
 
 const prisma = new PrismaClient()
 const router = Router()
 
-const receitaSchema = z.object({
+const camposReceitaSchema = z.object({
   descricao: z.string().min(2, {
     message: "Nome da descricão deve possuir, no mínimo, 2 caracteres",
   }).optional(),
@@ -18,24 +37,102 @@ const receitaSchema = z.object({
       message: "Nome da categoria deve possuir, no mínimo, 2 caracteres",
     })
     .optional(),
+  // Preferível ao nome livre: categoria cadastrada em /categorias
+  categoriaId: z.coerce.number().int().positive().optional(),
   anexo: z.string().url().optional(),
   data: z.coerce.date(),
   clienteId: z.coerce.number().positive().optional(),
-  usuarioId: z.string(),
+  // Fiado: o cliente paga depois (ver POST /receitas/:id/pagamentos)
+  aPrazo: z.boolean().optional(),
+  vencimento: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, { message: "Use o formato AAAA-MM-DD" })
+    .transform((valor) => new Date(`${valor}T00:00:00.000Z`))
+    .optional(),
+})
+
+const receitaSchema = camposReceitaSchema.extend({
+  aPrazo: z.boolean().default(false),
+}).refine((dados) => !dados.aPrazo || dados.clienteId != null, {
+  message: "Venda fiado precisa de um cliente",
+  path: ["clienteId"],
+})
+
+// Sem default: aPrazo e vencimento omitidos mantêm o que está gravado
+const atualizacaoReceitaSchema = camposReceitaSchema
+
+const pagamentoSchema = z.object({
+  valor: z.coerce.number().positive({ message: "Valor deve ser positivo" }),
+  data: z.coerce.date().optional(),
+  observacao: z.string().optional(),
 })
 
+// Quantidade direto na base (qtdBase) ou em quantidade + unidade: sem unidade vale
+// a de exibição (kg, L, un); "CX", "DZ"... precisam estar cadastradas no produto.
+// precoUnit é o preço por unidade informada.
 const receitaItemSchema = z.object({
   produtoId: z.coerce.number().int().positive(),
-  qtdBase: z.coerce.number().positive(),
+  qtdBase: z.coerce.number().positive().optional(),
+  quantidade: z.coerce.number().positive().optional(),
+  unidade: z.string().optional(),
   precoUnit: z.coerce.number().positive().optional(),
   subtotal: z.coerce.number().positive().optional(),
+}).refine((item) => (item.qtdBase == null) !== (item.quantidade == null), {
+  message: "Informe qtdBase ou quantidade",
+  path: ["quantidade"],
 })
 
 const loteItensSchema = z.object({
   itens: z.array(receitaItemSchema).min(1),
 })
 
-router.get("/", async (req, res) => {
+type ErroItem = {
+  indice: number
+  produtoId: number
+  erro: string
+}
+
+// Lançado dentro da transação de itens para desfazer o lote inteiro
+class ItensInvalidosError extends Error {
+  constructor(public erros: ErroItem[]) {
+    super("Itens inválidos")
+  }
+}
+
+// Pagamento recusado dentro da transação (receita à vista ou valor acima do saldo)
+class PagamentoInvalidoError extends Error {}
+
+// Edição recusada dentro da transação (fiado sem cliente, valor abaixo do já pago
+// ou fiado com pagamentos virando à vista)
+class AtualizacaoInvalidaError extends Error {}
+
+function custoDoItem(produto: {
+  custoMedio: Prisma.Decimal
+  componentes: Parameters<typeof custoDoKit>[0]
+}) {
+  return produto.componentes.length > 0 ? custoDoKit(produto.componentes) : produto.custoMedio
+}
+
+// Garante que o cliente informado na receita pertence ao usuário logado
+async function clientePertenceAoUsuario(clienteId: number | undefined, usuarioId: string) {
+  if (clienteId == null) return true
+
+  const cliente = await prisma.cliente.findFirst({
+    where: { id: clienteId, usuarioId },
+    select: { id: true },
+  })
+  return cliente !== null
+}
+
+async function hojeDoUsuario(usuarioId: string) {
+  const usuario = await prisma.usuario.findUniqueOrThrow({
+    where: { id: usuarioId },
+    select: { fusoHorario: true },
+  })
+  return hojeComoData(usuario.fusoHorario)
+}
+
+router.get("/", requireAdmin, async (req, res) => {
   try {
     const receitas = await prisma.receita.findMany({
       include: {
@@ -54,29 +151,50 @@ router.get("/", async (req, res) => {
 })
 
 router.get("/:usuarioId", async (req, res) => {
-  const { usuarioId } = req.params
+  const usuarioId = req.usuarioLogadoId
+
+  const valida = filtroReceitasSchema.safeParse(req.query)
+  if (!valida.success) {
+    res.status(400).json({ erro: valida.error })
+    return
+  }
+
+  const filtro = valida.data
 
   try {
-    const receitas = await prisma.receita.findMany({
-      where: { usuarioId },
-      orderBy: { data: 'desc' },
-      include: {
-        cliente: true,
-        itens: {
-          include: {
-            produto: true,
+    const intervalo = await intervaloDoFiltro(usuarioId, filtro)
+    const where = whereReceitas(usuarioId, filtro, intervalo)
+
+    const [receitas, total, hoje] = await Promise.all([
+      prisma.receita.findMany({
+        where,
+        ...argsPaginacao(filtro, filtro.ordenarPor),
+        include: {
+          cliente: filtro.expand.includes("cliente"),
+          itens: filtro.expand.includes("itens") && {
+            include: {
+              produto: true,
+            },
           },
+          pagamentos: true,
         },
-      },
-    })
-    res.status(200).json(receitas)
+      }),
+      prisma.receita.count({ where }),
+      hojeDoUsuario(usuarioId),
+    ])
+
+    const custos = await custosDasReceitas(receitas.map((receita) => receita.id))
+
+    res.status(200).json(
+      montarPagina(receitas, total, filtro.limite, (receita) => comMargem(comSaldo(receita, hoje), custos))
+    )
   } catch (error) {
     res.status(500).json({ erro: error })
   }
 })
 
 router.get("/dashboard/:usuarioId", async (req, res) => {
-  const { usuarioId } = req.params;
+  const usuarioId = req.usuarioLogadoId;
 
   try {
     const receitas = await prisma.receita.findMany({
@@ -106,12 +224,30 @@ router.post("/", async (req, res) => {
     return
   }
 
-  const { descricao, valor, anexo, data, categoria, usuarioId, clienteId } =
+  const { descricao, valor, anexo, data, clienteId, aPrazo, vencimento } =
     valida.data
+  const usuarioId = req.usuarioLogadoId
+
+  if (!(await clientePertenceAoUsuario(clienteId, usuarioId))) {
+    res.status(400).json({ erro: "Cliente não encontrado" })
+    return
+  }
+
+  const categoria = await resolverCategoria(usuarioId, "RECEITA", valida.data)
+  if (!categoria) {
+    res.status(400).json({ erro: "Categoria não encontrada" })
+    return
+  }
 
   try {
+    const limiteAtingido = await verificarLimitePlano(usuarioId, "receitas")
+    if (limiteAtingido) {
+      res.status(402).json(limiteAtingido)
+      return
+    }
+
     const receita = await prisma.receita.create({
-      data: { descricao, valor, anexo, data, categoria, usuarioId, clienteId },
+      data: { descricao, valor, anexo, data, ...categoria, usuarioId, clienteId, aPrazo, vencimento },
       include: {
         cliente: true,
         itens: {
@@ -130,30 +266,91 @@ router.post("/", async (req, res) => {
 router.put("/:id", async (req, res) => {
   const { id } = req.params
 
-  const valida = receitaSchema.safeParse(req.body)
+  const valida = atualizacaoReceitaSchema.safeParse(req.body)
   if (!valida.success) {
     res.status(400).json({ erro: valida.error })
     return
   }
 
-  const { descricao, valor, anexo, data, categoria, usuarioId, clienteId } =
+  const { descricao, valor, anexo, data, clienteId, aPrazo, vencimento } =
     valida.data
+  const usuarioId = req.usuarioLogadoId
+
+  if (!(await clientePertenceAoUsuario(clienteId, usuarioId))) {
+    res.status(400).json({ erro: "Cliente não encontrado" })
+    return
+  }
+
+  const categoria = await resolverCategoria(usuarioId, "RECEITA", valida.data)
+  if (!categoria) {
+    res.status(400).json({ erro: "Categoria não encontrada" })
+    return
+  }
 
   try {
-    const receita = await prisma.receita.update({
-      where: { id: Number(id) },
-      data: { descricao, valor, anexo, data, categoria, usuarioId, clienteId },
-      include: {
-        cliente: true,
-        itens: {
-          include: {
-            produto: true,
+    const receita = await prisma.$transaction(async (transacao) => {
+      // Trava a receita para um pagamento simultâneo não passar do novo valor
+      const travada = await transacao.$queryRaw<{ id: number }[]>(
+        Prisma.sql`SELECT "id" FROM "receitas" WHERE "id" = ${Number(id)} AND "usuarioId" = ${usuarioId} FOR UPDATE`
+      )
+      if (travada.length === 0) {
+        return null
+      }
+
+      const atual = await transacao.receita.findUniqueOrThrow({
+        where: { id: Number(id) },
+        include: { pagamentos: { select: { valor: true } } },
+      })
+
+      const fiado = aPrazo ?? atual.aPrazo
+      if (fiado && (clienteId ?? atual.clienteId) == null) {
+        throw new AtualizacaoInvalidaError("Venda fiado precisa de um cliente")
+      }
+
+      // Os pagamentos ficariam soltos no extrato do cliente
+      if (atual.aPrazo && !fiado && atual.pagamentos.length > 0) {
+        throw new AtualizacaoInvalidaError("Venda fiado com pagamentos não pode virar à vista")
+      }
+
+      const pago = atual.pagamentos.reduce((acc, pagamento) => acc + Number(pagamento.valor), 0)
+      if (valor < pago - 0.005) {
+        throw new AtualizacaoInvalidaError(`Valor menor que o já pago (${pago.toFixed(2)})`)
+      }
+
+      return transacao.receita.update({
+        where: { id: atual.id },
+        data: {
+          descricao,
+          valor,
+          anexo,
+          data,
+          ...categoria,
+          clienteId,
+          aPrazo,
+          vencimento,
+        },
+        include: {
+          cliente: true,
+          itens: {
+            include: {
+              produto: true,
+            },
           },
         },
-      },
+      })
     })
+
+    if (!receita) {
+      res.status(404).json({ erro: "Receita não encontrada" })
+      return
+    }
+
     res.status(200).json(receita)
   } catch (error) {
+    if (error instanceof AtualizacaoInvalidaError) {
+      res.status(400).json({ erro: error.message })
+      return
+    }
     res.status(400).json({ error })
   }
 })
@@ -167,16 +364,39 @@ router.delete("/:id", async (req, res) => {
   }
 
   try {
-    await prisma.$transaction(async (transacao) => {
+    const receita = await prisma.receita.findFirst({
+      where: { id: receitaId, usuarioId: req.usuarioLogadoId },
+      select: { id: true },
+    });
+
+    if (!receita) {
+      return res.status(404).json({ error: "Receita não encontrada" });
+    }
+
+    const arquivos = await prisma.$transaction(async (transacao) => {
       const itens = await transacao.receitaItem.findMany({
         where: { receitaId },
       });
 
+      // Devolve o que a venda baixou de fato (componentes, no caso de kit), pelo
+      // histórico. Itens anteriores ao histórico voltam pela própria quantidade.
+      const baixas = await transacao.movimentoEstoque.groupBy({
+        by: ["produtoId"],
+        where: { receitaId, tipo: "VENDA" },
+        _sum: { quantidade: true },
+      });
+
       const mapaPorProduto = new Map<number, number>();
 
-      for (const item of itens) {
-        const atual = mapaPorProduto.get(item.produtoId) ?? 0;
-        mapaPorProduto.set(item.produtoId, atual + Number(item.qtdBase));
+      for (const baixa of baixas) {
+        mapaPorProduto.set(baixa.produtoId, -Number(baixa._sum.quantidade ?? 0));
+      }
+
+      if (baixas.length === 0) {
+        for (const item of itens) {
+          const atual = mapaPorProduto.get(item.produtoId) ?? 0;
+          mapaPorProduto.set(item.produtoId, atual + Number(item.qtdBase));
+        }
       }
 
       for (const [produtoId, qtd] of mapaPorProduto.entries()) {
@@ -186,13 +406,28 @@ router.delete("/:id", async (req, res) => {
             saldoBase: { increment: qtd },
           },
         });
+
+        await registrarMovimento(transacao, {
+          produtoId,
+          usuarioId: req.usuarioLogadoId,
+          tipo: "ESTORNO_VENDA",
+          quantidade: qtd,
+          receitaId,
+          motivo: "Exclusão da receita",
+        });
       }
 
+      // Linhas somem por cascata; os arquivos em si são apagados após o commit
+      const arquivos = await transacao.arquivo.findMany({ where: { receitaId } });
+
       await transacao.receita.deleteMany({
         where: { id: receitaId },
       });
+
+      return arquivos;
     });
 
+    await removerDoArmazenamento(arquivos);
     return res.status(204).send();
   } catch (err) {
     console.error(err);
@@ -212,18 +447,168 @@ router.post("/:id/itens", async (req, res) => {
   const { itens } = valida.data
 
   try {
-    await prisma.receitaItem.createMany({
-      data: itens.map((item) => ({
-        receitaId: Number(id),
-        produtoId: item.produtoId,
-        qtdBase: Number(item.qtdBase),
-        subtotal: Number(item.subtotal ?? 0),
-        precoUnit:
-          item.precoUnit == null ? null : Number(item.precoUnit),
-      })),
+    const receitaDoUsuario = await prisma.receita.findFirst({
+      where: { id: Number(id), usuarioId: req.usuarioLogadoId },
+      select: { id: true },
     })
 
-    const receita = await prisma.receita.findUnique({
+    if (!receitaDoUsuario) {
+      res.status(404).json({ erro: "Receita não encontrada" })
+      return
+    }
+
+    // Só notifica depois do commit: venda desfeita não gera alerta
+    const alertasEstoque: AlertaEstoqueBaixo[] = []
+
+    await prisma.$transaction(async (transacao) => {
+      const usuario = await transacao.usuario.findUnique({
+        where: { id: req.usuarioLogadoId },
+        select: { permitirEstoqueNegativo: true },
+      })
+      const permitirEstoqueNegativo = usuario?.permitirEstoqueNegativo ?? false
+
+      const produtos = await transacao.produto.findMany({
+        where: {
+          id: { in: itens.map((item) => item.produtoId) },
+          usuarioId: req.usuarioLogadoId,
+        },
+        include: { unidadesAlternativas: true, componentes: { include: { componente: true } } },
+      })
+
+      const erros: ErroItem[] = []
+      const qtdPorProduto = new Map<number, number>()
+      // Quantidade de cada item já na unidade base, na ordem de itens
+      const qtdBasePorItem: number[] = []
+
+      itens.forEach((item, indice) => {
+        const produto = produtos.find((p) => p.id === item.produtoId)
+
+        if (!produto) {
+          erros.push({ indice, produtoId: item.produtoId, erro: "Produto não encontrado" })
+          return
+        }
+
+        if (!produto.ativo) {
+          erros.push({ indice, produtoId: item.produtoId, erro: "Produto inativo" })
+          return
+        }
+
+        // Kit não baixa estoque de componente desativado
+        const componenteInativo = produto.componentes.find((c) => !c.componente.ativo)
+        if (componenteInativo) {
+          erros.push({
+            indice,
+            produtoId: item.produtoId,
+            erro: `Componente ${componenteInativo.componente.nome} inativo`,
+          })
+          return
+        }
+
+        const fator = item.qtdBase != null ? 1 : fatorDaUnidade(produto, item.unidade)
+        if (fator == null) {
+          erros.push({ indice, produtoId: item.produtoId, erro: `Unidade ${item.unidade} não cadastrada para o produto` })
+          return
+        }
+        const qtdBase = item.qtdBase ?? item.quantidade! * fator
+        qtdBasePorItem[indice] = qtdBase
+
+        // Acumula por produto para barrar o mesmo produto repetido no lote
+        const qtdAcumulada = (qtdPorProduto.get(produto.id) ?? 0) + qtdBase
+        qtdPorProduto.set(produto.id, qtdAcumulada)
+
+        // Kit não tem estoque próprio: quem é conferido são os componentes, abaixo
+        const saldoDisponivel = Number(produto.saldoBase)
+        if (produto.componentes.length === 0 && !permitirEstoqueNegativo && qtdAcumulada > saldoDisponivel) {
+          erros.push({
+            indice,
+            produtoId: item.produtoId,
+            erro: `Estoque insuficiente (disponível: ${saldoDisponivel})`,
+          })
+        }
+      })
+
+      const componentesPorKit = new Map(produtos.map((p) => [p.id, p.componentes]))
+      const consumo = consumoDeEstoque(qtdPorProduto, componentesPorKit)
+
+      // Itens do lote que baixam o produto, direto ou como componente de um kit
+      const itensQueConsomem = (produtoId: number) =>
+        itens
+          .map((item, indice) => ({ indice, produtoId: item.produtoId }))
+          .filter((item) =>
+            item.produtoId === produtoId ||
+            componentesPorKit.get(item.produtoId)?.some((c) => c.componenteId === produtoId)
+          )
+
+      if (!permitirEstoqueNegativo) {
+        for (const kit of produtos.filter((p) => qtdPorProduto.has(p.id) && p.componentes.length > 0)) {
+          for (const { componente } of kit.componentes) {
+            const saldoDisponivel = Number(componente.saldoBase)
+            if (consumo.get(componente.id)! > saldoDisponivel) {
+              itens.forEach((item, indice) => {
+                if (item.produtoId === kit.id) {
+                  erros.push({
+                    indice,
+                    produtoId: kit.id,
+                    erro: `Estoque insuficiente de ${componente.nome} (disponível: ${saldoDisponivel})`,
+                  })
+                }
+              })
+            }
+          }
+        }
+      }
+
+      if (erros.length > 0) {
+        throw new ItensInvalidosError(erros)
+      }
+
+      await transacao.receitaItem.createMany({
+        data: itens.map((item, indice) => ({
+          receitaId: Number(id),
+          produtoId: item.produtoId,
+          qtdBase: qtdBasePorItem[indice],
+          subtotal: Number(item.subtotal ?? 0),
+          precoUnit:
+            item.precoUnit == null ? null : Number(item.precoUnit),
+          // Congela o custo de agora: entradas futuras mudam o custoMedio do produto.
+          // Kit custa a soma dos componentes.
+          custoMedio: custoDoItem(produtos.find((p) => p.id === item.produtoId)!),
+        })),
+      })
+
+      for (const [produtoId, qtd] of consumo.entries()) {
+        // Baixa condicional: se outra venda consumiu o saldo depois da leitura, nada é atualizado
+        const atualizados = await transacao.produto.updateMany({
+          where: permitirEstoqueNegativo
+            ? { id: produtoId }
+            : { id: produtoId, saldoBase: { gte: qtd } },
+          data: {
+            saldoBase: { decrement: qtd },
+          },
+        })
+
+        if (atualizados.count === 0) {
+          throw new ItensInvalidosError(
+            itensQueConsomem(produtoId).map((item) => ({ ...item, erro: "Estoque insuficiente" }))
+          )
+        }
+
+        const { alertaEstoque } = await registrarMovimento(transacao, {
+          produtoId,
+          usuarioId: req.usuarioLogadoId,
+          tipo: "VENDA",
+          quantidade: -qtd,
+          receitaId: Number(id),
+        })
+        if (alertaEstoque) {
+          alertasEstoque.push(alertaEstoque)
+        }
+      }
+    })
+
+    await notificarTodos("estoqueBaixo", alertasEstoque)
+
+    const receita = await prisma.receita.findUniqueOrThrow({
       where: { id: Number(id) },
       include: {
         cliente: true,
@@ -235,7 +620,162 @@ router.post("/:id/itens", async (req, res) => {
       },
     })
 
-    res.status(201).json(receita)
+    res.status(201).json(comMargem(receita, await custosDasReceitas([receita.id])))
+  } catch (error) {
+    if (error instanceof ItensInvalidosError) {
+      res.status(400).json({ erro: "Itens inválidos", itens: error.erros })
+      return
+    }
+    res.status(400).json({ erro: error })
+  }
+})
+
+/**
+ * POST /receitas/:id/pagamentos
+ * Registra um pagamento (parcial ou total) de uma venda fiado.
+ * Não aceita valor acima do saldo em aberto.
+ */
+router.post("/:id/pagamentos", async (req, res) => {
+  const { id } = req.params
+
+  const valida = pagamentoSchema.safeParse(req.body)
+  if (!valida.success) {
+    res.status(400).json({ erro: valida.error })
+    return
+  }
+
+  const usuarioId = req.usuarioLogadoId
+
+  try {
+    const hoje = await hojeDoUsuario(usuarioId)
+
+    const receita = await prisma.$transaction(async (transacao) => {
+      // Trava a receita para dois pagamentos simultâneos não passarem do saldo
+      const travada = await transacao.$queryRaw<{ id: number }[]>(
+        Prisma.sql`SELECT "id" FROM "receitas" WHERE "id" = ${Number(id)} AND "usuarioId" = ${usuarioId} FOR UPDATE`
+      )
+      if (travada.length === 0) {
+        return null
+      }
+
+      const atual = await transacao.receita.findUniqueOrThrow({
+        where: { id: Number(id) },
+        include: { pagamentos: true },
+      })
+
+      if (!atual.aPrazo) {
+        throw new PagamentoInvalidoError("Receita à vista não recebe pagamentos")
+      }
+
+      const { saldoEmAberto } = saldoDaReceita(atual, hoje)
+      if (valida.data.valor > saldoEmAberto + 0.005) {
+        throw new PagamentoInvalidoError(`Valor maior que o saldo em aberto (${saldoEmAberto.toFixed(2)})`)
+      }
+
+      await transacao.pagamento.create({
+        data: { ...valida.data, receitaId: atual.id, usuarioId },
+      })
+
+      return transacao.receita.findUniqueOrThrow({
+        where: { id: atual.id },
+        include: { cliente: true, pagamentos: { orderBy: { data: "asc" } } },
+      })
+    })
+
+    if (!receita) {
+      res.status(404).json({ erro: "Receita não encontrada" })
+      return
+    }
+
+    res.status(201).json(comSaldo(receita, hoje))
+  } catch (error) {
+    if (error instanceof PagamentoInvalidoError) {
+      res.status(400).json({ erro: error.message })
+      return
+    }
+    res.status(400).json({ erro: error })
+  }
+})
+
+/**
+ * GET /receitas/:id/recibo.pdf
+ * Recibo da venda em PDF. O número sai da sequência do usuário na primeira
+ * impressão e se repete nas reimpressões.
+ */
+router.get("/:id/recibo.pdf", async (req, res) => {
+  const receitaId = Number(req.params.id)
+  const usuarioId = req.usuarioLogadoId
+
+  try {
+    const numero = await numerarRecibo(receitaId, usuarioId)
+    if (numero == null) {
+      return res.status(404).json({ erro: "Receita não encontrada" })
+    }
+
+    const receita = await prisma.receita.findUniqueOrThrow({
+      where: { id: receitaId },
+      include: {
+        cliente: { select: { nome: true, endereco: true } },
+        itens: { include: { produto: { select: { nome: true, unidadeBase: true } } }, orderBy: { id: "asc" } },
+        usuario: { select: { nome: true, cpf: true, fusoHorario: true } },
+      },
+    })
+
+    const pdf = gerarReciboPdf({
+      numero,
+      data: receita.data,
+      fuso: receita.usuario.fusoHorario,
+      valor: Number(receita.valor),
+      descricao: receita.descricao,
+      receitaId: receita.id,
+      vendedor: receita.usuario,
+      cliente: receita.cliente,
+      itens: receita.itens.map((item) => ({
+        produto: item.produto.nome,
+        unidadeBase: item.produto.unidadeBase,
+        qtdBase: item.qtdBase,
+        precoUnit: item.precoUnit,
+        subtotal: item.subtotal,
+      })),
+    })
+
+    res.setHeader("Content-Type", "application/pdf")
+    res.setHeader("Content-Disposition", `inline; filename="recibo-${numero}.pdf"`)
+    res.status(200).send(pdf)
+  } catch (error) {
+    console.error("Erro ao gerar recibo:", error)
+    res.status(500).json({ erro: "Erro ao gerar recibo" })
+  }
+})
+
+router.get("/:id/pagamentos", async (req, res) => {
+  const { id } = req.params
+
+  try {
+    const pagamentos = await prisma.pagamento.findMany({
+      where: { receitaId: Number(id), usuarioId: req.usuarioLogadoId },
+      orderBy: { data: "asc" },
+    })
+    res.status(200).json(pagamentos)
+  } catch (error) {
+    res.status(500).json({ erro: error })
+  }
+})
+
+router.delete("/:id/pagamentos/:pagamentoId", async (req, res) => {
+  const { id, pagamentoId } = req.params
+
+  try {
+    const { count } = await prisma.pagamento.deleteMany({
+      where: { id: Number(pagamentoId), receitaId: Number(id), usuarioId: req.usuarioLogadoId },
+    })
+
+    if (count === 0) {
+      res.status(404).json({ erro: "Pagamento não encontrado" })
+      return
+    }
+
+    res.status(204).send()
   } catch (error) {
     res.status(400).json({ erro: error })
   }
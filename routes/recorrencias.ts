@@ -0,0 +1,259 @@
+import { PrismaClient, Tipo_Lancamento, Frequencia_Recorrencia } from "@prisma/client";
+import { Router } from "express";
+import { z } from "zod";
+import { gerarRecorrenciasPendentes, calcularOcorrencias } from "../utils/recorrencias";
+import { hojeComoData } from "../utils/periodo";
+import { resolverCategoria } from "../utils/categorias";
+
+const prisma = new PrismaClient();
+const router = Router();
+
+const dataSemHora = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, { message: "Use o formato AAAA-MM-DD" })
+  .transform((valor) => new Date(`${valor}T00:00:00.000Z`));
+
+const recorrenciaSchema = z
+  .object({
+    tipo: z.nativeEnum(Tipo_Lancamento),
+    descricao: z.string().min(2, { message: "Descrição deve ter no mínimo 2 caracteres" }),
+    valor: z.coerce.number().positive({ message: "Valor deve ser positivo" }),
+    categoria: z.string().min(2).optional().nullable(),
+    clienteId: z.coerce.number().int().positive().optional().nullable(),
+    frequencia: z.nativeEnum(Frequencia_Recorrencia),
+    diaDoMes: z.coerce.number().int().min(1).max(31).optional().nullable(),
+    diaDaSemana: z.coerce.number().int().min(0).max(6).optional().nullable(),
+    mesDoAno: z.coerce.number().int().min(1).max(12).optional().nullable(),
+    inicio: dataSemHora,
+    fim: dataSemHora.optional().nullable(),
+    ativa: z.boolean().optional(),
+  })
+  .superRefine((dados, ctx) => {
+    if (dados.frequencia === "SEMANAL" && dados.diaDaSemana == null) {
+      ctx.addIssue({ code: "custom", path: ["diaDaSemana"], message: "Informe o dia da semana" });
+    }
+    if (dados.frequencia !== "SEMANAL" && dados.diaDoMes == null) {
+      ctx.addIssue({ code: "custom", path: ["diaDoMes"], message: "Informe o dia do mês" });
+    }
+    if (dados.frequencia === "ANUAL" && dados.mesDoAno == null) {
+      ctx.addIssue({ code: "custom", path: ["mesDoAno"], message: "Informe o mês do ano" });
+    }
+    if (dados.tipo === "DESPESA" && dados.clienteId != null) {
+      ctx.addIssue({ code: "custom", path: ["clienteId"], message: "Despesa não tem cliente" });
+    }
+    if (dados.fim && dados.fim < dados.inicio) {
+      ctx.addIssue({ code: "custom", path: ["fim"], message: "O fim deve ser depois do início" });
+    }
+  });
+
+const edicaoSchema = z.object({
+  aplicarEm: z.enum(["futuras", "todas"]).default("futuras"),
+});
+
+async function clientePertenceAoUsuario(clienteId: number | null | undefined, usuarioId: string) {
+  if (clienteId == null) return true;
+
+  const cliente = await prisma.cliente.findFirst({
+    where: { id: clienteId, usuarioId },
+    select: { id: true },
+  });
+  return cliente !== null;
+}
+
+async function proximaOcorrencia(recorrencia: Parameters<typeof calcularOcorrencias>[0], fuso: string) {
+  const hoje = hojeComoData(fuso);
+  const umAno = new Date(hoje.getTime() + 366 * 24 * 60 * 60 * 1000);
+  return calcularOcorrencias(recorrencia, hoje, umAno)[0] ?? null;
+}
+
+/**
+ * GET /recorrencias
+ * Lista as recorrências do usuário com a data da próxima ocorrência
+ */
+router.get("/", async (req, res) => {
+  try {
+    const usuario = await prisma.usuario.findUniqueOrThrow({
+      where: { id: req.usuarioLogadoId },
+      select: { fusoHorario: true },
+    });
+
+    const recorrencias = await prisma.recorrencia.findMany({
+      where: { usuarioId: req.usuarioLogadoId },
+      include: { cliente: true },
+      orderBy: { createdAt: "desc" },
+    });
+
+    const resposta = await Promise.all(
+      recorrencias.map(async (recorrencia) => ({
+        ...recorrencia,
+        proximaOcorrencia: recorrencia.ativa
+          ? await proximaOcorrencia(recorrencia, usuario.fusoHorario)
+          : null,
+      }))
+    );
+
+    res.status(200).json(resposta);
+  } catch (error) {
+    console.error("Erro ao listar recorrências:", error);
+    res.status(500).json({ erro: "Erro ao listar recorrências" });
+  }
+});
+
+/**
+ * POST /recorrencias/gerar
+ * Cria as receitas/despesas das recorrências que venceram até hoje.
+ * Idempotente: chamar de novo no mesmo dia não duplica nada. Receitas barradas
+ * pelo limite do plano voltam em receitasNaoGeradas.
+ */
+router.post("/gerar", async (req, res) => {
+  try {
+    const resultado = await gerarRecorrenciasPendentes(req.usuarioLogadoId);
+    res.status(200).json(resultado);
+  } catch (error) {
+    console.error("Erro ao gerar recorrências:", error);
+    res.status(500).json({ erro: "Erro ao gerar recorrências" });
+  }
+});
+
+router.get("/:id", async (req, res) => {
+  const { id } = req.params;
+
+  try {
+    const recorrencia = await prisma.recorrencia.findFirst({
+      where: { id: Number(id), usuarioId: req.usuarioLogadoId },
+      include: {
+        cliente: true,
+        receitas: { orderBy: { data: "desc" }, take: 12 },
+        despesas: { orderBy: { data: "desc" }, take: 12 },
+      },
+    });
+
+    if (!recorrencia) {
+      return res.status(404).json({ erro: "Recorrência não encontrada" });
+    }
+
+    res.status(200).json(recorrencia);
+  } catch (error) {
+    console.error("Erro ao buscar recorrência:", error);
+    res.status(500).json({ erro: "Erro ao buscar recorrência" });
+  }
+});
+
+router.post("/", async (req, res) => {
+  const parseResult = recorrenciaSchema.safeParse(req.body);
+  if (!parseResult.success) {
+    return res.status(400).json({ erro: parseResult.error.flatten() });
+  }
+
+  const dados = parseResult.data;
+
+  try {
+    if (!(await clientePertenceAoUsuario(dados.clienteId, req.usuarioLogadoId))) {
+      return res.status(400).json({ erro: "Cliente não encontrado" });
+    }
+
+    const recorrencia = await prisma.recorrencia.create({
+      data: { ...dados, usuarioId: req.usuarioLogadoId },
+    });
+
+    res.status(201).json(recorrencia);
+  } catch (error) {
+    console.error("Erro ao criar recorrência:", error);
+    res.status(400).json({ erro: "Erro ao criar recorrência" });
+  }
+});
+
+/**
+ * PUT /recorrencias/:id?aplicarEm=futuras|todas
+ * Atualiza o modelo e a agenda. Com "futuras" (padrão) só as ocorrências de hoje
+ * em diante recebem a nova descrição/valor/categoria/cliente; com "todas" os
+ * lançamentos já gerados também são atualizados.
+ */
+router.put("/:id", async (req, res) => {
+  const { id } = req.params;
+
+  const parseResult = recorrenciaSchema.safeParse(req.body);
+  const edicao = edicaoSchema.safeParse(req.query);
+  if (!parseResult.success) {
+    return res.status(400).json({ erro: parseResult.error.flatten() });
+  }
+  if (!edicao.success) {
+    return res.status(400).json({ erro: edicao.error.flatten() });
+  }
+
+  const dados = parseResult.data;
+
+  try {
+    const atual = await prisma.recorrencia.findFirst({
+      where: { id: Number(id), usuarioId: req.usuarioLogadoId },
+      include: { usuario: { select: { fusoHorario: true } } },
+    });
+
+    if (!atual) {
+      return res.status(404).json({ erro: "Recorrência não encontrada" });
+    }
+
+    if (atual.tipo !== dados.tipo) {
+      return res.status(400).json({ erro: "Não é possível mudar o tipo de uma recorrência" });
+    }
+
+    if (!(await clientePertenceAoUsuario(dados.clienteId, req.usuarioLogadoId))) {
+      return res.status(400).json({ erro: "Cliente não encontrado" });
+    }
+
+    const filtroLancamentos = {
+      recorrenciaId: atual.id,
+      ...(edicao.data.aplicarEm === "futuras" && {
+        ocorrencia: { gte: hojeComoData(atual.usuario.fusoHorario) },
+      }),
+    };
+
+    // Vincula os lançamentos à categoria cadastrada do novo nome; sem nome, limpa as duas
+    const categoria = await resolverCategoria(req.usuarioLogadoId, dados.tipo, { categoria: dados.categoria });
+
+    const modelo = {
+      descricao: dados.descricao,
+      valor: dados.valor,
+      categoria: categoria?.categoria ?? null,
+      categoriaId: categoria?.categoriaId ?? null,
+    };
+
+    const [recorrencia, lancamentosAtualizados] = await prisma.$transaction([
+      prisma.recorrencia.update({
+        where: { id: atual.id },
+        data: dados,
+      }),
+      dados.tipo === "RECEITA"
+        ? prisma.receita.updateMany({
+            where: filtroLancamentos,
+            data: { ...modelo, clienteId: dados.clienteId ?? null },
+          })
+        : prisma.despesa.updateMany({ where: filtroLancamentos, data: modelo }),
+    ]);
+
+    res.status(200).json({ ...recorrencia, lancamentosAtualizados: lancamentosAtualizados.count });
+  } catch (error) {
+    console.error("Erro ao atualizar recorrência:", error);
+    res.status(400).json({ erro: "Erro ao atualizar recorrência" });
+  }
+});
+
+// Os lançamentos já gerados continuam existindo, só perdem o vínculo
+router.delete("/:id", async (req, res) => {
+  const { id } = req.params;
+
+  try {
+    const recorrencia = await prisma.recorrencia.delete({
+      where: { id: Number(id), usuarioId: req.usuarioLogadoId },
+    });
+    res.status(200).json(recorrencia);
+  } catch (error: any) {
+    if (error.code === "P2025") {
+      return res.status(404).json({ erro: "Recorrência não encontrada" });
+    }
+    console.error("Erro ao excluir recorrência:", error);
+    res.status(400).json({ erro: "Erro ao excluir recorrência" });
+  }
+});
+
+export default router;
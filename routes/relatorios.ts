@@ -0,0 +1,339 @@
+import { PrismaClient, Prisma } from "@prisma/client";
+import { Router } from "express";
+import { z } from "zod";
+import { periodoSchema, resolverPeriodo } from "../utils/periodo";
+import { margem } from "../utils/margem";
+
+const prisma = new PrismaClient();
+const router = Router();
+
+const MAX_PONTOS_SERIE = 1000;
+
+const fluxoCaixaSchema = periodoSchema.and(
+  z.object({
+    agrupamento: z.enum(["dia", "semana", "mes"]).default("dia"),
+    porCategoria: z
+      .enum(["true", "false"])
+      .transform((valor) => valor === "true")
+      .optional(),
+  })
+);
+
+type Agrupamento = "dia" | "semana" | "mes";
+
+const UNIDADE_DATE_TRUNC: Record<Agrupamento, string> = {
+  dia: "day",
+  semana: "week",
+  mes: "month",
+};
+
+type LinhaAgrupada = {
+  bucket: Date;
+  categoria: string | null;
+  total: Prisma.Decimal;
+};
+
+/**
+ * Soma os valores de receitas ou despesas por bucket (dia/semana/mês no fuso do
+ * usuário) direto no banco. O bucket volta como timestamp local sem fuso.
+ * Despesas só entram depois de pagas, na data do pagamento (ou na data da
+ * despesa, para as pagas sem dataPagamento).
+ */
+async function agruparPorPeriodo(
+  tabela: "receitas" | "despesas",
+  usuarioId: string,
+  inicio: Date,
+  fim: Date,
+  agrupamento: Agrupamento,
+  fuso: string,
+  porCategoria: boolean
+) {
+  const coluna =
+    tabela === "despesas" ? Prisma.sql`COALESCE("dataPagamento", "data")` : Prisma.sql`"data"`;
+  const filtroStatus =
+    tabela === "despesas" ? Prisma.sql`AND "status" = 'PAGA'` : Prisma.empty;
+  const bucket = Prisma.sql`date_trunc(${UNIDADE_DATE_TRUNC[agrupamento]}, (${coluna} AT TIME ZONE 'UTC') AT TIME ZONE ${fuso})`;
+  const categoria = porCategoria
+    ? Prisma.sql`NULLIF(TRIM("categoria"), '')`
+    : Prisma.sql`NULL`;
+
+  return prisma.$queryRaw<LinhaAgrupada[]>`
+    SELECT ${bucket} AS "bucket", ${categoria} AS "categoria", SUM("valor") AS "total"
+    FROM ${Prisma.raw(`"${tabela}"`)}
+    WHERE "usuarioId" = ${usuarioId} AND ${coluna} >= ${inicio} AND ${coluna} < ${fim} ${filtroStatus}
+    GROUP BY 1, 2
+  `;
+}
+
+// Chave AAAA-MM-DD do bucket; o timestamp local chega como se fosse UTC
+function chaveDoBucket(data: Date) {
+  return data.toISOString().slice(0, 10);
+}
+
+// Todas as chaves de bucket entre as duas datas locais, para preencher buracos com zero
+function gerarBuckets(inicioLocal: Date, fimLocal: Date, agrupamento: Agrupamento) {
+  const atual = new Date(inicioLocal);
+
+  if (agrupamento === "semana") {
+    // date_trunc('week') começa na segunda-feira
+    const diaSemana = (atual.getUTCDay() + 6) % 7;
+    atual.setUTCDate(atual.getUTCDate() - diaSemana);
+  } else if (agrupamento === "mes") {
+    atual.setUTCDate(1);
+  }
+
+  const chaves: string[] = [];
+  while (atual < fimLocal && chaves.length <= MAX_PONTOS_SERIE) {
+    chaves.push(chaveDoBucket(atual));
+
+    if (agrupamento === "dia") atual.setUTCDate(atual.getUTCDate() + 1);
+    else if (agrupamento === "semana") atual.setUTCDate(atual.getUTCDate() + 7);
+    else atual.setUTCMonth(atual.getUTCMonth() + 1);
+  }
+
+  return chaves;
+}
+
+// Converte um instante UTC para a data/hora local do fuso, representada em UTC
+function paraHorarioLocal(data: Date, fuso: string) {
+  const texto = data.toLocaleString("sv-SE", { timeZone: fuso }).replace(" ", "T");
+  return new Date(`${texto}Z`);
+}
+
+type LinhaMargem = {
+  produtoId: number;
+  nome: string;
+  categoria: string | null;
+  unidadeBase: string;
+  mes: Date;
+  quantidade: Prisma.Decimal;
+  receita: Prisma.Decimal;
+  custo: Prisma.Decimal;
+};
+
+type Acumulado = { receita: number; custo: number };
+
+function acumular<K>(mapa: Map<K, Acumulado>, chave: K, linha: LinhaMargem) {
+  const atual = mapa.get(chave) ?? { receita: 0, custo: 0 };
+  atual.receita += Number(linha.receita);
+  atual.custo += Number(linha.custo);
+  mapa.set(chave, atual);
+}
+
+/**
+ * GET /relatorios/margem
+ * Receita, custo das mercadorias vendidas, lucro bruto e margem % por produto,
+ * por categoria de estoque e por mês (no fuso do usuário). Usa o custo médio
+ * gravado em cada item na venda; itens antigos sem custo ficam de fora e são
+ * contados em itensSemCusto. Aceita os filtros de período (padrão: ano atual).
+ */
+router.get("/margem", async (req, res) => {
+  const valida = periodoSchema.safeParse(req.query);
+  if (!valida.success) {
+    return res.status(400).json({ erro: valida.error });
+  }
+
+  const usuarioId = req.usuarioLogadoId;
+
+  try {
+    const usuario = await prisma.usuario.findUniqueOrThrow({
+      where: { id: usuarioId },
+      select: { fusoHorario: true },
+    });
+    const fuso = usuario.fusoHorario;
+
+    const periodo = resolverPeriodo(valida.data, fuso) ?? resolverPeriodo({ periodo: "ano" }, fuso)!;
+
+    const filtroVendas = Prisma.sql`
+      r."usuarioId" = ${usuarioId} AND r."data" >= ${periodo.inicio} AND r."data" < ${periodo.fim}
+    `;
+
+    const [linhas, [semCusto]] = await Promise.all([
+      prisma.$queryRaw<LinhaMargem[]>`
+        SELECT p."id" AS "produtoId", p."nome", p."categoria"::text AS "categoria", p."unidadeBase"::text AS "unidadeBase",
+               date_trunc('month', (r."data" AT TIME ZONE 'UTC') AT TIME ZONE ${fuso}) AS "mes",
+               SUM(i."qtdBase") AS "quantidade",
+               SUM(i."subtotal") AS "receita",
+               SUM(i."qtdBase" * i."custoMedio") AS "custo"
+        FROM "receitaItems" i
+        JOIN "receitas" r ON r."id" = i."receitaId"
+        JOIN "produtos" p ON p."id" = i."produtoId"
+        WHERE ${filtroVendas} AND i."custoMedio" IS NOT NULL
+        GROUP BY 1, 2, 3, 4, 5
+      `,
+      prisma.$queryRaw<{ total: bigint }[]>`
+        SELECT COUNT(*) AS "total"
+        FROM "receitaItems" i
+        JOIN "receitas" r ON r."id" = i."receitaId"
+        WHERE ${filtroVendas} AND i."custoMedio" IS NULL
+      `,
+    ]);
+
+    const porProduto = new Map<number, Acumulado & { nome: string; categoria: string | null; unidadeBase: string; quantidadeBase: number }>();
+    const porCategoria = new Map<string, Acumulado>();
+    const porMes = new Map<string, Acumulado>();
+    const total: Acumulado = { receita: 0, custo: 0 };
+
+    for (const linha of linhas) {
+      const produto = porProduto.get(linha.produtoId) ?? {
+        nome: linha.nome,
+        categoria: linha.categoria,
+        unidadeBase: linha.unidadeBase,
+        quantidadeBase: 0,
+        receita: 0,
+        custo: 0,
+      };
+      produto.quantidadeBase += Number(linha.quantidade);
+      produto.receita += Number(linha.receita);
+      produto.custo += Number(linha.custo);
+      porProduto.set(linha.produtoId, produto);
+
+      acumular(porCategoria, linha.categoria ?? "SEM_CATEGORIA", linha);
+      acumular(porMes, linha.mes.toISOString().slice(0, 7), linha);
+
+      total.receita += Number(linha.receita);
+      total.custo += Number(linha.custo);
+    }
+
+    const ordenarPorLucro = <T extends { lucroBruto: number }>(lista: T[]) =>
+      lista.sort((a, b) => b.lucroBruto - a.lucroBruto);
+
+    res.status(200).json({
+      periodo: { inicio: periodo.inicio, fim: periodo.fim },
+      total: margem(total.receita, total.custo),
+      itensSemCusto: Number(semCusto?.total ?? 0),
+      porProduto: ordenarPorLucro(
+        Array.from(porProduto.entries()).map(([produtoId, p]) => ({
+          produtoId,
+          nome: p.nome,
+          categoria: p.categoria,
+          unidadeBase: p.unidadeBase,
+          quantidadeBase: Number(p.quantidadeBase.toFixed(6)),
+          ...margem(p.receita, p.custo),
+        }))
+      ),
+      porCategoria: ordenarPorLucro(
+        Array.from(porCategoria.entries()).map(([categoria, c]) => ({ categoria, ...margem(c.receita, c.custo) }))
+      ),
+      porMes: Array.from(porMes.entries())
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([mes, m]) => ({ mes, ...margem(m.receita, m.custo) })),
+    });
+  } catch (error) {
+    console.error("Erro ao gerar relatório de margem:", error);
+    res.status(500).json({ erro: "Erro ao gerar relatório de margem" });
+  }
+});
+
+/**
+ * GET /relatorios/fluxo-caixa
+ * Série de receitas x despesas pagas por dia, semana ou mês, com resultado e saldo acumulado.
+ * Aceita os mesmos filtros de período do dashboard (padrão: últimos 30 dias).
+ */
+router.get("/fluxo-caixa", async (req, res) => {
+  const valida = fluxoCaixaSchema.safeParse(req.query);
+  if (!valida.success) {
+    return res.status(400).json({ erro: valida.error });
+  }
+
+  const { agrupamento, porCategoria = false, ...filtroPeriodo } = valida.data;
+  const usuarioId = req.usuarioLogadoId;
+
+  try {
+    const usuario = await prisma.usuario.findUniqueOrThrow({
+      where: { id: usuarioId },
+      select: { fusoHorario: true },
+    });
+    const fuso = usuario.fusoHorario;
+
+    const periodo =
+      resolverPeriodo(filtroPeriodo, fuso) ?? resolverPeriodo({ periodo: "ultimos30" }, fuso)!;
+
+    // fim é exclusivo: o último dia local é o anterior à meia-noite de fim
+    const chaves = gerarBuckets(
+      paraHorarioLocal(periodo.inicio, fuso),
+      paraHorarioLocal(periodo.fim, fuso),
+      agrupamento
+    );
+
+    if (chaves.length > MAX_PONTOS_SERIE) {
+      return res.status(400).json({
+        erro: `Período muito longo para o agrupamento escolhido (máximo de ${MAX_PONTOS_SERIE} pontos)`,
+      });
+    }
+
+    const [receitas, despesas, receitasAnteriores, despesasAnteriores] = await Promise.all([
+      agruparPorPeriodo("receitas", usuarioId, periodo.inicio, periodo.fim, agrupamento, fuso, porCategoria),
+      agruparPorPeriodo("despesas", usuarioId, periodo.inicio, periodo.fim, agrupamento, fuso, porCategoria),
+      prisma.receita.aggregate({ where: { usuarioId, data: { lt: periodo.inicio } }, _sum: { valor: true } }),
+      prisma.despesa.aggregate({
+        where: {
+          usuarioId,
+          status: "PAGA",
+          OR: [
+            { dataPagamento: { lt: periodo.inicio } },
+            { dataPagamento: null, data: { lt: periodo.inicio } },
+          ],
+        },
+        _sum: { valor: true },
+      }),
+    ]);
+
+    const saldoInicial =
+      Number(receitasAnteriores._sum.valor ?? 0) - Number(despesasAnteriores._sum.valor ?? 0);
+
+    const pontos = new Map(
+      chaves.map((chave) => [
+        chave,
+        {
+          periodo: chave,
+          receitas: 0,
+          despesas: 0,
+          receitasPorCategoria: {} as Record<string, number>,
+          despesasPorCategoria: {} as Record<string, number>,
+        },
+      ])
+    );
+
+    for (const linha of receitas) {
+      const ponto = pontos.get(chaveDoBucket(linha.bucket));
+      if (!ponto) continue;
+      ponto.receitas += Number(linha.total);
+      const categoria = linha.categoria ?? "Sem Categoria";
+      ponto.receitasPorCategoria[categoria] = (ponto.receitasPorCategoria[categoria] ?? 0) + Number(linha.total);
+    }
+
+    for (const linha of despesas) {
+      const ponto = pontos.get(chaveDoBucket(linha.bucket));
+      if (!ponto) continue;
+      ponto.despesas += Number(linha.total);
+      const categoria = linha.categoria ?? "Sem Categoria";
+      ponto.despesasPorCategoria[categoria] = (ponto.despesasPorCategoria[categoria] ?? 0) + Number(linha.total);
+    }
+
+    let saldo = saldoInicial;
+    const serie = Array.from(pontos.values()).map(({ receitasPorCategoria, despesasPorCategoria, ...ponto }) => {
+      const resultado = ponto.receitas - ponto.despesas;
+      saldo += resultado;
+
+      return {
+        ...ponto,
+        resultado: Number(resultado.toFixed(2)),
+        saldo: Number(saldo.toFixed(2)),
+        ...(porCategoria && { receitasPorCategoria, despesasPorCategoria }),
+      };
+    });
+
+    res.status(200).json({
+      agrupamento,
+      periodo: { inicio: periodo.inicio, fim: periodo.fim },
+      saldoInicial,
+      serie,
+    });
+  } catch (error) {
+    console.error("Erro ao gerar fluxo de caixa:", error);
+    res.status(500).json({ erro: "Erro ao gerar fluxo de caixa" });
+  }
+});
+
+export default router;
@@ -2,6 +2,14 @@ import { PrismaClient } from '@prisma/client'
 import { Router } from 'express'
 import bcrypt from 'bcrypt'
 import { z } from 'zod'
+import { requireAdmin } from '../middlewares/requireAdmin'
+import { serializarUsuario } from '../utils/serializarUsuario'
+import { PLANOS, obterPlano, calcularUso } from '../utils/planos'
+import { Intervalo, periodoSchema, resolverPeriodo, variacaoPercentual, fusoValido } from '../utils/periodo'
+import { totaisAPagar } from '../utils/contasPagar'
+import { formatarProdutoParaExibicao, quantidadeParaExibicao } from '../utils/unidades'
+import { removerDoArmazenamento } from '../utils/arquivos'
+import { chaveDaCategoria } from '../utils/categorias'
 
 const prisma = new PrismaClient()
 const router = Router()
@@ -14,7 +22,21 @@ const usuarioSchema = z.object({
   celular: z.string().min(11).max(11, { message: "Celular deve conter 11 dígitos (somente números)" })
 })
 
-function validaSenha(senha: string): string[] {
+const configuracoesSchema = z.object({
+  permitirEstoqueNegativo: z.boolean().optional(),
+  fusoHorario: z.string().refine(fusoValido, { message: "Fuso horário inválido" }).optional(),
+})
+
+const notificacoesFiltroSchema = z.object({
+  naoLidas: z.enum(["true", "false"]).transform((valor) => valor === "true").optional(),
+  tipo: z.enum(["orcamentoAlerta", "estoqueBaixo"]).optional(),
+})
+
+const adminSchema = z.object({ admin: z.boolean() })
+const bloqueioSchema = z.object({ bloqueado: z.boolean() })
+const vipLevelSchema = z.object({ vipLevel: z.coerce.number().int().min(0) })
+
+export function validaSenha(senha: string): string[] {
   const erros: string[] = []
 
   if (senha.length < 8) {
@@ -38,33 +60,59 @@ function validaSenha(senha: string): string[] {
   return erros
 }
 
-function formatarProdutoParaExibicao(produto: any) {
-  let unidadeDisplay = "un";
-  let saldoDisplay = Number(produto.saldoBase ?? 0);
+type Totais = {
+  totalReceitas: number
+  totalDespesas: number
+  lucroLiquido: number
+}
 
-  if (produto.unidadeBase === "G") {
-    unidadeDisplay = "kg";
-    saldoDisplay = Number((saldoDisplay / 1000));
-  }
-  else if (produto.unidadeBase === "ML") {
-    unidadeDisplay = "L";
-    saldoDisplay = Number((saldoDisplay / 1000));
+// Despesas pagas no intervalo pela data do pagamento (ou da despesa), como no fluxo de caixa
+function despesasPagasNo(data: { gte: Date, lt: Date } | undefined) {
+  return {
+    status: "PAGA" as const,
+    OR: [{ dataPagamento: data }, { dataPagamento: null, data }],
   }
-  else {
-    unidadeDisplay = "un";
+}
+
+// Soma receitas pela data do lançamento e despesas pagas pela data do pagamento
+// (sem intervalo = histórico inteiro)
+async function somarTotais(usuarioId: string, intervalo: Intervalo | null): Promise<Totais> {
+  const data = intervalo ? { gte: intervalo.inicio, lt: intervalo.fim } : undefined
+
+  const [receitas, despesas] = await Promise.all([
+    prisma.receita.aggregate({ where: { usuarioId, data }, _sum: { valor: true } }),
+    prisma.despesa.aggregate({ where: { usuarioId, ...despesasPagasNo(data) }, _sum: { valor: true } }),
+  ])
+
+  const totalReceitas = Number(receitas._sum.valor ?? 0)
+  const totalDespesas = Number(despesas._sum.valor ?? 0)
+
+  return {
+    totalReceitas,
+    totalDespesas,
+    lucroLiquido: totalReceitas - totalDespesas,
   }
+}
 
+function compararTotais(atual: Totais, anterior: Totais) {
   return {
-    ...produto,
-    saldoDisplay,
-    unidadeDisplay,
-  };
+    totalReceitas: variacaoPercentual(atual.totalReceitas, anterior.totalReceitas),
+    totalDespesas: variacaoPercentual(atual.totalDespesas, anterior.totalDespesas),
+    lucroLiquido: variacaoPercentual(atual.lucroLiquido, anterior.lucroLiquido),
+  }
+}
+
+// Agrupa pela categoria cadastrada; lançamentos antigos sem categoriaId, pelo nome
+function chaveDoRelatorio(lancamento: { categoriaId: number | null; categoria: string }) {
+  return lancamento.categoriaId != null
+    ? `id:${lancamento.categoriaId}`
+    : `nome:${chaveDaCategoria(lancamento.categoria)}`
 }
 
-router.get("/", async (req, res) => {
+router.get("/", requireAdmin, async (req, res) => {
   try {
     const usuarios = await prisma.usuario.findMany()
-    res.status(200).json(usuarios)
+    res.status(200).json(usuarios.map(serializarUsuario))
   } catch (error) {
     res.status(500).json({ erro: error })
   }
@@ -72,11 +120,29 @@ router.get("/", async (req, res) => {
 
 router.get("/:id", async (req, res) => {
   const { id } = req.params
+
   try {
-    const usuarios = await prisma.usuario.findUnique({
+    // Dados de outro usuário só para admin
+    if (id !== req.usuarioLogadoId) {
+      const usuarioLogado = await prisma.usuario.findUnique({
+        where: { id: req.usuarioLogadoId },
+        select: { admin: true },
+      })
+
+      if (!usuarioLogado?.admin) {
+        return res.status(403).json({ erro: "Acesso negado" })
+      }
+    }
+
+    const usuario = await prisma.usuario.findUnique({
       where: { id }
     })
-    res.status(200).json(usuarios)
+
+    if (!usuario) {
+      return res.status(404).json({ erro: "Usuário não encontrado" })
+    }
+
+    res.status(200).json(serializarUsuario(usuario))
   } catch (error) {
     res.status(400).json(error)
   }
@@ -108,7 +174,7 @@ router.post("/", async (req, res) => {
         celular
       }
     })
-    res.status(201).json(usuario)
+    res.status(201).json(serializarUsuario(usuario))
   } catch (error) {
     res.status(400).json({ error })
   }
@@ -117,6 +183,10 @@ router.post("/", async (req, res) => {
 router.put("/:id", async (req, res) => {
   const { id } = req.params
 
+  if (id !== req.usuarioLogadoId) {
+    return res.status(403).json({ erro: "Acesso negado" })
+  }
+
   const valida = usuarioSchema.safeParse(req.body)
   if (!valida.success) {
     return res.status(400).json({ erro: valida.error })
@@ -136,7 +206,7 @@ router.put("/:id", async (req, res) => {
       where: { id: id },
       data: { nome, email, senha: senhaCriptografada, celular }
     })
-    res.status(200).json(usuario)
+    res.status(200).json(serializarUsuario(usuario))
   } catch (error) {
     res.status(400).json({ error })
   }
@@ -145,9 +215,117 @@ router.put("/:id", async (req, res) => {
 router.delete("/:id", async (req, res) => {
   const { id } = req.params
 
+  if (id !== req.usuarioLogadoId) {
+    return res.status(403).json({ erro: "Acesso negado" })
+  }
+
   try {
-    const usuario = await prisma.usuario.delete({
-      where: { id: id }
+    const { arquivos, ...usuario } = await prisma.usuario.delete({
+      where: { id: id },
+      include: { arquivos: true }
+    })
+    await removerDoArmazenamento(arquivos)
+    res.status(200).json(serializarUsuario(usuario))
+  } catch (error) {
+    res.status(400).json({ erro: error })
+  }
+})
+
+router.patch("/:id/admin", requireAdmin, async (req, res) => {
+  const { id } = req.params
+
+  const valida = adminSchema.safeParse(req.body)
+  if (!valida.success) {
+    return res.status(400).json({ erro: valida.error })
+  }
+
+  // Evita que o sistema fique sem nenhum admin por engano
+  if (id === req.usuarioLogadoId && !valida.data.admin) {
+    return res.status(400).json({ erro: "Não é possível remover o próprio acesso de administrador" })
+  }
+
+  try {
+    const usuario = await prisma.usuario.update({
+      where: { id },
+      data: { admin: valida.data.admin },
+    })
+    res.status(200).json(serializarUsuario(usuario))
+  } catch (error: any) {
+    if (error.code === "P2025") {
+      return res.status(404).json({ erro: "Usuário não encontrado" })
+    }
+    res.status(400).json({ erro: error })
+  }
+})
+
+router.patch("/:id/bloqueio", requireAdmin, async (req, res) => {
+  const { id } = req.params
+
+  const valida = bloqueioSchema.safeParse(req.body)
+  if (!valida.success) {
+    return res.status(400).json({ erro: valida.error })
+  }
+
+  if (id === req.usuarioLogadoId) {
+    return res.status(400).json({ erro: "Não é possível bloquear a própria conta" })
+  }
+
+  try {
+    const usuario = await prisma.usuario.update({
+      where: { id },
+      data: { bloqueado: valida.data.bloqueado },
+    })
+
+    // Bloqueio derruba as sessões abertas; o token de acesso expira sozinho
+    if (usuario.bloqueado) {
+      await prisma.sessao.updateMany({
+        where: { usuarioId: id, revogadaEm: null },
+        data: { revogadaEm: new Date() },
+      })
+    }
+
+    res.status(200).json(serializarUsuario(usuario))
+  } catch (error: any) {
+    if (error.code === "P2025") {
+      return res.status(404).json({ erro: "Usuário não encontrado" })
+    }
+    res.status(400).json({ erro: error })
+  }
+})
+
+router.patch("/:id/vip-level", requireAdmin, async (req, res) => {
+  const { id } = req.params
+
+  const valida = vipLevelSchema.safeParse(req.body)
+  if (!valida.success) {
+    return res.status(400).json({ erro: valida.error })
+  }
+
+  try {
+    const usuario = await prisma.usuario.update({
+      where: { id },
+      data: { vipLevel: valida.data.vipLevel },
+    })
+    res.status(200).json(serializarUsuario(usuario))
+  } catch (error: any) {
+    if (error.code === "P2025") {
+      return res.status(404).json({ erro: "Usuário não encontrado" })
+    }
+    res.status(400).json({ erro: error })
+  }
+})
+
+router.patch("/me/configuracoes", async (req, res) => {
+  const valida = configuracoesSchema.safeParse(req.body)
+  if (!valida.success) {
+    return res.status(400).json({ erro: valida.error })
+  }
+
+  try {
+    const usuario = await prisma.usuario.update({
+      where: { id: req.usuarioLogadoId },
+      data: valida.data,
+      select: { permitirEstoqueNegativo: true, fusoHorario: true },
     })
     res.status(200).json(usuario)
   } catch (error) {
@@ -155,29 +333,161 @@ router.delete("/:id", async (req, res) => {
   }
 })
 
+router.get("/me/plano", async (req, res) => {
+  try {
+    const usuario = await prisma.usuario.findUniqueOrThrow({
+      where: { id: req.usuarioLogadoId },
+      select: { vipLevel: true },
+    })
+
+    const plano = obterPlano(usuario.vipLevel)
+    const uso = await calcularUso(req.usuarioLogadoId)
+
+    res.status(200).json({
+      plano: { nivel: plano.nivel, nome: plano.nome },
+      limites: {
+        produtos: { uso: uso.produtos, limite: plano.maxProdutosAtivos },
+        clientes: { uso: uso.clientes, limite: plano.maxClientes },
+        receitasMes: { uso: uso.receitas, limite: plano.maxReceitasMes },
+      },
+      recursos: { relatorio: plano.relatorio },
+      planosDisponiveis: PLANOS.map((p, nivel) => ({ nivel, ...p })),
+    })
+  } catch (error) {
+    res.status(500).json({ erro: error })
+  }
+})
+
+router.get("/me/sessoes", async (req, res) => {
+  try {
+    // Só a linha mais recente (não rotacionada) de cada sessão está ativa
+    const sessoes = await prisma.sessao.findMany({
+      where: {
+        usuarioId: req.usuarioLogadoId,
+        rotacionadoEm: null,
+        revogadaEm: null,
+        expiraEm: { gt: new Date() },
+      },
+      orderBy: { createdAt: "desc" },
+    })
+
+    res.status(200).json(sessoes.map((sessao) => ({
+      id: sessao.familia,
+      dispositivo: sessao.dispositivo,
+      userAgent: sessao.userAgent,
+      iniciadaEm: sessao.iniciadaEm,
+      ultimoUso: sessao.createdAt,
+      expiraEm: sessao.expiraEm,
+      atual: sessao.familia === req.sessaoId,
+    })))
+  } catch (error) {
+    res.status(500).json({ erro: error })
+  }
+})
+
+router.delete("/me/sessoes/:id", async (req, res) => {
+  const { id } = req.params
+
+  try {
+    const revogadas = await prisma.sessao.updateMany({
+      where: { familia: id, usuarioId: req.usuarioLogadoId, revogadaEm: null },
+      data: { revogadaEm: new Date() },
+    })
+
+    if (revogadas.count === 0) {
+      return res.status(404).json({ erro: "Sessão não encontrada" })
+    }
+
+    res.status(204).send()
+  } catch (error) {
+    res.status(500).json({ erro: error })
+  }
+})
+
+router.get("/me/notificacoes", async (req, res) => {
+  const valida = notificacoesFiltroSchema.safeParse(req.query)
+  if (!valida.success) {
+    return res.status(400).json({ erro: valida.error })
+  }
+
+  const { naoLidas, tipo } = valida.data
+
+  try {
+    const notificacoes = await prisma.notificacao.findMany({
+      where: {
+        usuarioId: req.usuarioLogadoId,
+        tipo,
+        ...(naoLidas ? { lida: false } : {}),
+      },
+      orderBy: { createdAt: "desc" },
+      take: 50,
+    })
+    res.status(200).json(notificacoes)
+  } catch (error) {
+    res.status(500).json({ erro: error })
+  }
+})
+
+router.patch("/me/notificacoes/:id/lida", async (req, res) => {
+  const { id } = req.params
+
+  try {
+    const notificacao = await prisma.notificacao.update({
+      where: { id: Number(id), usuarioId: req.usuarioLogadoId },
+      data: { lida: true },
+    })
+    res.status(200).json(notificacao)
+  } catch (error: any) {
+    if (error.code === "P2025") {
+      return res.status(404).json({ erro: "Notificação não encontrada" })
+    }
+    res.status(400).json({ erro: error })
+  }
+})
+
 router.get("/dashboard/:usuarioId", async (req, res) => {
-  const { usuarioId } = req.params
+  const usuarioId = req.usuarioLogadoId
+
+  const filtro = periodoSchema.safeParse(req.query)
+  if (!filtro.success) {
+    return res.status(400).json({ erro: filtro.error })
+  }
 
   try {
-    const receitas = await prisma.receita.findMany({
-      where: { usuarioId },
-      select: { valor: true },
+    const usuario = await prisma.usuario.findUniqueOrThrow({
+      where: { id: usuarioId },
+      select: { fusoHorario: true },
     })
 
-    const despesas = await prisma.despesa.findMany({
-      where: { usuarioId },
-      select: { valor: true },
+    const periodo = resolverPeriodo(filtro.data, usuario.fusoHorario)
+    const totais = await somarTotais(usuarioId, periodo)
+
+    // Projeção separada: despesas em aberto não entram em totalDespesas
+    const aPagar = await totaisAPagar(usuarioId, usuario.fusoHorario, periodo)
+
+    // Avisos de estoque baixo ainda não lidos, independentes do período
+    const alertasEstoque = await prisma.notificacao.findMany({
+      where: { usuarioId, tipo: "estoqueBaixo", lida: false },
+      orderBy: { createdAt: "desc" },
+      take: 10,
     })
 
-    const totalReceitas = receitas.reduce((acc, r) => acc + Number(r.valor), 0)
-    const totalDespesas = despesas.reduce((acc, d) => acc + Number(d.valor), 0)
+    if (!periodo) {
+      return res.status(200).json({ ...totais, aPagar, alertasEstoque, periodo: null })
+    }
 
-    const lucroLiquido = totalReceitas - totalDespesas
+    const anterior = await somarTotais(usuarioId, periodo.anterior)
 
     res.status(200).json({
-      totalReceitas,
-      totalDespesas,
-      lucroLiquido,
+      ...totais,
+      aPagar,
+      alertasEstoque,
+      periodo: { inicio: periodo.inicio, fim: periodo.fim },
+      anterior: {
+        ...anterior,
+        periodo: periodo.anterior,
+      },
+      variacao: compararTotais(totais, anterior),
     })
   } catch (error) {
     res.status(500).json({ erro: error })
@@ -186,60 +496,88 @@ router.get("/dashboard/:usuarioId", async (req, res) => {
 
 
 router.get("/relatorio/:usuarioId", async (req, res) => {
-  const { usuarioId } = req.params;
+  const usuarioId = req.usuarioLogadoId;
+
+  const filtro = periodoSchema.safeParse(req.query);
+  if (!filtro.success) {
+    return res.status(400).json({ erro: filtro.error });
+  }
 
   try {
+    const usuario = await prisma.usuario.findUniqueOrThrow({
+      where: { id: usuarioId },
+      select: { vipLevel: true, fusoHorario: true },
+    });
+
+    const plano = obterPlano(usuario.vipLevel);
+    if (!plano.relatorio) {
+      return res.status(402).json({
+        erro: "Relatório não disponível no seu plano",
+        plano: plano.nome,
+        recurso: "relatorio",
+      });
+    }
+
+    const periodo = resolverPeriodo(filtro.data, usuario.fusoHorario);
+    const filtroData = periodo ? { gte: periodo.inicio, lt: periodo.fim } : undefined;
+
     const receitas = await prisma.receita.findMany({
-      where: { usuarioId },
-      select: { id: true, valor: true, categoria: true, anexo: true, clienteId: true },
+      where: { usuarioId, data: filtroData },
+      select: { id: true, valor: true, categoria: true, categoriaId: true, anexo: true, clienteId: true },
     });
 
     const despesas = await prisma.despesa.findMany({
-      where: { usuarioId },
-      select: { valor: true, categoria: true, anexo: true, createdAt: true },
+      where: { usuarioId, ...despesasPagasNo(filtroData) },
+      select: { valor: true, categoria: true, categoriaId: true, anexo: true, createdAt: true },
     });
 
     const totalReceitas = receitas.reduce((acc, r) => acc + Number(r.valor), 0);
     const totalDespesas = despesas.reduce((acc, d) => acc + Number(d.valor), 0);
     const lucroLiquido = totalReceitas - totalDespesas;
 
+    const totaisAnteriores = periodo ? await somarTotais(usuarioId, periodo.anterior) : null;
+
     const vendasSemAnexo = receitas.filter(r => !r.anexo || r.anexo.trim() === "").length;
     const totalVendas = receitas.length;
 
-    const categoriasReceitasMap = new Map<string, number>();
+    const categoriasReceitasMap = new Map<string, { categoriaId: number | null, categoria: string, count: number }>();
     receitas.forEach(r => {
-        if (r.categoria) {
-            const cat = r.categoria;
-            categoriasReceitasMap.set(cat, (categoriasReceitasMap.get(cat) ?? 0) + 1);
+        const cat = r.categoria;
+        if (cat && cat.trim() !== "") {
+            const chave = chaveDoRelatorio({ categoriaId: r.categoriaId, categoria: cat });
+            const atual = categoriasReceitasMap.get(chave) ?? { categoriaId: r.categoriaId, categoria: cat, count: 0 };
+            categoriasReceitasMap.set(chave, { ...atual, count: atual.count + 1 });
         }
     });
-    const categoriasMaisVendidas = Array.from(categoriasReceitasMap.entries())
-        .sort(([, a], [, b]) => b - a)
+    const categoriasMaisVendidas = Array.from(categoriasReceitasMap.values())
+        .sort((a, b) => b.count - a.count)
         .slice(0, 3)
-        .map(([categoria, contagem]) => ({ categoria, contagem }));
+        .map(({ categoriaId, categoria, count }) => ({ categoriaId, categoria, contagem: count }));
 
     const despesasSemAnexo = despesas.filter(d => !d.anexo || d.anexo.trim() === "").length;
 
-    const categoriasDespesasMap = new Map<string, { count: number, total: number }>();
+    const categoriasDespesasMap = new Map<string, { categoriaId: number | null, categoria: string, count: number, total: number }>();
     despesas.forEach(d => {
         const cat = d.categoria && d.categoria.trim() !== "" ? d.categoria : "Sem Categoria";
+        const chave = chaveDoRelatorio({ categoriaId: d.categoriaId, categoria: cat });
         const valor = Number(d.valor);
-        const atual = categoriasDespesasMap.get(cat) ?? { count: 0, total: 0 };
-        categoriasDespesasMap.set(cat, {
+        const atual = categoriasDespesasMap.get(chave) ?? { categoriaId: d.categoriaId, categoria: cat, count: 0, total: 0 };
+        categoriasDespesasMap.set(chave, {
+            ...atual,
             count: atual.count + 1,
             total: atual.total + valor,
         });
     });
 
-    const categoriasMaisDespesas = Array.from(categoriasDespesasMap.entries())
-        .sort(([, a], [, b]) => b.count - a.count)
+    const categoriasMaisDespesas = Array.from(categoriasDespesasMap.values())
+        .sort((a, b) => b.count - a.count)
         .slice(0, 3)
-        .map(([categoria, data]) => ({ categoria, contagem: data.count }));
+        .map(({ categoriaId, categoria, count }) => ({ categoriaId, categoria, contagem: count }));
 
-    const valorGastoCategorias = Array.from(categoriasDespesasMap.entries())
-        .sort(([, a], [, b]) => b.total - a.total)
+    const valorGastoCategorias = Array.from(categoriasDespesasMap.values())
+        .sort((a, b) => b.total - a.total)
         .slice(0, 3)
-        .map(([categoria, data]) => ({ categoria, valor: data.total }));
+        .map(({ categoriaId, categoria, total }) => ({ categoriaId, categoria, valor: total }));
 
 
     const receitasComCliente = receitas.filter(r => r.clienteId);
@@ -282,7 +620,7 @@ router.get("/relatorio/:usuarioId", async (req, res) => {
     const produtosVendidosAgg = await prisma.receitaItem.groupBy({
         by: ["produtoId"],
         where: {
-            receita: { usuarioId }
+            receita: { usuarioId, data: filtroData }
         },
         _sum: { qtdBase: true },
         orderBy: { _sum: { qtdBase: "desc" } },
@@ -297,17 +635,13 @@ router.get("/relatorio/:usuarioId", async (req, res) => {
     });
 
     const produtosMaisVendidos = produtosVendidosAgg.map(item => {
-        const produtoInfo = produtosVendidosInfo.find(p => p.id === item.produtoId);
-
-        const produtoFormatado = formatarProdutoParaExibicao({
-            ...produtoInfo,
-            saldoBase: item._sum.qtdBase ?? 0,
-        });
+        const produtoInfo = produtosVendidosInfo.find(p => p.id === item.produtoId)!;
+        const { quantidade, unidade } = quantidadeParaExibicao(item._sum.qtdBase, produtoInfo.unidadeBase);
 
         return {
-            nome: produtoFormatado.nome,
-            quantidade: produtoFormatado.saldoDisplay,
-            unidade: produtoFormatado.unidadeDisplay,
+            nome: produtoInfo.nome,
+            quantidade,
+            unidade,
         };
     });
 
@@ -359,11 +693,14 @@ router.get("/relatorio/:usuarioId", async (req, res) => {
         .map(p => ({ produto: p.nome, quantidade: Number(p.saldoDisplay.toFixed(2)), unidade: 'L' }));
 
 
+    const totais = { totalReceitas, totalDespesas, lucroLiquido };
+
     res.status(200).json({
+      periodo: periodo ? { inicio: periodo.inicio, fim: periodo.fim } : null,
       totais: {
-        totalReceitas,
-        totalDespesas,
-        lucroLiquido,
+        ...totais,
+        anterior: totaisAnteriores && { ...totaisAnteriores, periodo: periodo!.anterior },
+        variacao: totaisAnteriores && compararTotais(totais, totaisAnteriores),
       },
       receitas: {
         categoriasMaisVendidas,
@@ -0,0 +1,142 @@
+import { createHash, createHmac } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+
+/**
+ * Onde os anexos enviados ficam guardados, configurado pelo ambiente.
+ *
+ * ARMAZENAMENTO=local (padrão) grava em disco, em ARMAZENAMENTO_DIR (padrão ./uploads).
+ * ARMAZENAMENTO=s3 usa um bucket compatível com S3 (AWS, MinIO, R2...) com
+ * S3_ENDPOINT, S3_REGIAO, S3_BUCKET, S3_ACCESS_KEY_ID e S3_SECRET_ACCESS_KEY.
+ *
+ * Cada arquivo guarda o nome do driver em que foi gravado, então trocar a
+ * configuração não perde os arquivos antigos.
+ */
+export interface Armazenamento {
+  salvar(chave: string, conteudo: Buffer, tipo: string): Promise<void>;
+  ler(chave: string): Promise<Buffer>;
+  remover(chave: string): Promise<void>;
+}
+
+function armazenamentoLocal(): Armazenamento {
+  const raiz = path.resolve(process.env.ARMAZENAMENTO_DIR ?? "uploads");
+
+  // As chaves são geradas pelo sistema, mas nunca deixa sair da pasta raiz
+  const caminho = (chave: string) => {
+    const completo = path.resolve(raiz, chave);
+    if (!completo.startsWith(raiz + path.sep)) {
+      throw new Error(`Chave de arquivo inválida: ${chave}`);
+    }
+    return completo;
+  };
+
+  return {
+    async salvar(chave, conteudo) {
+      const destino = caminho(chave);
+      await fs.mkdir(path.dirname(destino), { recursive: true });
+      await fs.writeFile(destino, conteudo);
+    },
+    ler(chave) {
+      return fs.readFile(caminho(chave));
+    },
+    async remover(chave) {
+      await fs.rm(caminho(chave), { force: true });
+    },
+  };
+}
+
+const sha256 = (dados: string | Buffer) => createHash("sha256").update(dados).digest("hex");
+const hmac = (chave: string | Buffer, dados: string) => createHmac("sha256", chave).update(dados).digest();
+
+// Requisição assinada com AWS Signature V4, URL no estilo endpoint/bucket/chave
+function armazenamentoS3(): Armazenamento {
+  const regiao = process.env.S3_REGIAO ?? "us-east-1";
+  const endpoint = new URL(process.env.S3_ENDPOINT ?? `https://s3.${regiao}.amazonaws.com`);
+  const bucket = process.env.S3_BUCKET as string;
+  const accessKey = process.env.S3_ACCESS_KEY_ID as string;
+  const secretKey = process.env.S3_SECRET_ACCESS_KEY as string;
+
+  async function requisicao(metodo: "GET" | "PUT" | "DELETE", chave: string, corpo?: Buffer, tipo?: string) {
+    const caminho = `/${bucket}/${chave.split("/").map(encodeURIComponent).join("/")}`;
+    const agora = new Date().toISOString().replace(/[-:]|\.\d{3}/g, "");
+    const dia = agora.slice(0, 8);
+    const hashCorpo = sha256(corpo ?? "");
+
+    const cabecalhos: Record<string, string> = {
+      host: endpoint.host,
+      "x-amz-content-sha256": hashCorpo,
+      "x-amz-date": agora,
+      ...(tipo && { "content-type": tipo }),
+    };
+
+    const nomes = Object.keys(cabecalhos).sort();
+    const requisicaoCanonica = [
+      metodo,
+      caminho,
+      "",
+      ...nomes.map((nome) => `${nome}:${cabecalhos[nome]}`),
+      "",
+      nomes.join(";"),
+      hashCorpo,
+    ].join("\n");
+
+    const escopo = `${dia}/${regiao}/s3/aws4_request`;
+    const textoAssinado = ["AWS4-HMAC-SHA256", agora, escopo, sha256(requisicaoCanonica)].join("\n");
+    const chaveAssinatura = hmac(hmac(hmac(hmac(`AWS4${secretKey}`, dia), regiao), "s3"), "aws4_request");
+    const assinatura = createHmac("sha256", chaveAssinatura).update(textoAssinado).digest("hex");
+
+    // host entra na assinatura, mas quem envia o cabeçalho é o próprio fetch
+    const { host, ...enviados } = cabecalhos;
+    const resposta = await fetch(new URL(caminho, endpoint), {
+      method: metodo,
+      headers: {
+        ...enviados,
+        authorization: `AWS4-HMAC-SHA256 Credential=${accessKey}/${escopo}, SignedHeaders=${nomes.join(";")}, Signature=${assinatura}`,
+      },
+      body: corpo,
+    });
+
+    // DELETE de objeto que não existe também é sucesso
+    if (!resposta.ok && !(metodo === "DELETE" && resposta.status === 404)) {
+      throw new Error(`S3 ${metodo} ${chave}: ${resposta.status} ${await resposta.text()}`);
+    }
+
+    return resposta;
+  }
+
+  return {
+    async salvar(chave, conteudo, tipo) {
+      await requisicao("PUT", chave, conteudo, tipo);
+    },
+    async ler(chave) {
+      const resposta = await requisicao("GET", chave);
+      return Buffer.from(await resposta.arrayBuffer());
+    },
+    async remover(chave) {
+      await requisicao("DELETE", chave);
+    },
+  };
+}
+
+const drivers: Record<string, () => Armazenamento> = {
+  local: armazenamentoLocal,
+  s3: armazenamentoS3,
+};
+
+const instancias = new Map<string, Armazenamento>();
+
+export function driverPadrao() {
+  return process.env.ARMAZENAMENTO ?? "local";
+}
+
+export function obterArmazenamento(driver = driverPadrao()) {
+  const criar = drivers[driver];
+  if (!criar) {
+    throw new Error(`Armazenamento desconhecido: ${driver}`);
+  }
+
+  if (!instancias.has(driver)) {
+    instancias.set(driver, criar());
+  }
+  return instancias.get(driver)!;
+}
@@ -0,0 +1,37 @@
+import { obterArmazenamento } from "./armazenamento";
+
+export const TAMANHO_MAXIMO_ARQUIVO = Number(process.env.ARQUIVO_TAMANHO_MAXIMO_MB ?? 5) * 1024 * 1024;
+
+// Assinatura (primeiros bytes) de cada tipo aceito: o Content-Type enviado não é confiável
+const ASSINATURAS: { tipo: string; extensao: string; confere: (b: Buffer) => boolean }[] = [
+  { tipo: "image/jpeg", extensao: "jpg", confere: (b) => b[0] === 0xff && b[1] === 0xd8 && b[2] === 0xff },
+  { tipo: "image/png", extensao: "png", confere: (b) => b.subarray(0, 8).equals(Buffer.from("89504e470d0a1a0a", "hex")) },
+  { tipo: "image/gif", extensao: "gif", confere: (b) => b.subarray(0, 4).toString("latin1") === "GIF8" },
+  {
+    tipo: "image/webp",
+    extensao: "webp",
+    confere: (b) => b.subarray(0, 4).toString("latin1") === "RIFF" && b.subarray(8, 12).toString("latin1") === "WEBP",
+  },
+  { tipo: "application/pdf", extensao: "pdf", confere: (b) => b.subarray(0, 5).toString("latin1") === "%PDF-" },
+];
+
+export const TIPOS_ACEITOS = ASSINATURAS.map((a) => a.tipo);
+
+// Tipo real do arquivo pelo conteúdo, ou null se não for imagem/PDF aceito
+export function identificarTipo(conteudo: Buffer) {
+  const encontrado = ASSINATURAS.find((a) => a.confere(conteudo));
+  return encontrado ? { tipo: encontrado.tipo, extensao: encontrado.extensao } : null;
+}
+
+/**
+ * Apaga do armazenamento os arquivos de um registro que já foi excluído (as
+ * linhas somem por cascata). Falha aqui só vai para o log: o registro pai já
+ * não existe e um arquivo órfão não deve virar erro para o usuário.
+ */
+export async function removerDoArmazenamento(arquivos: { chave: string; armazenamento: string }[]) {
+  for (const arquivo of arquivos) {
+    await Promise.resolve()
+      .then(() => obterArmazenamento(arquivo.armazenamento).remover(arquivo.chave))
+      .catch((error) => console.error(`Erro ao remover arquivo ${arquivo.chave}:`, error));
+  }
+}
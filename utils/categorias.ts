@@ -0,0 +1,141 @@
+import { PrismaClient, Prisma, Tipo_Lancamento } from "@prisma/client";
+
+const prisma = new PrismaClient();
+
+// "Aluguel ", "aluguel" e "ALUGUEL" são a mesma categoria
+export function chaveDaCategoria(nome: string) {
+  return nome.trim().replace(/\s+/g, " ").toLocaleLowerCase("pt-BR");
+}
+
+type CategoriaInformada = {
+  categoriaId?: number | null;
+  categoria?: string | null;
+};
+
+/**
+ * Resolve a categoria de uma receita/despesa. Com categoriaId, confere dono e tipo
+ * e usa o nome cadastrado; só com o nome (formato antigo), vincula à categoria de
+ * mesmo nome se existir. Devolve null quando o categoriaId não serve.
+ */
+export async function resolverCategoria(
+  usuarioId: string,
+  tipo: Tipo_Lancamento,
+  informada: CategoriaInformada
+) {
+  if (informada.categoriaId != null) {
+    const categoria = await prisma.categoria.findFirst({
+      where: { id: informada.categoriaId, usuarioId, tipo },
+      select: { id: true, nome: true },
+    });
+    return categoria && { categoriaId: categoria.id, categoria: categoria.nome };
+  }
+
+  // Nada informado: undefined deixa o valor atual intocado no update
+  const nome = informada.categoria?.trim();
+  if (!nome) {
+    return { categoriaId: undefined, categoria: undefined };
+  }
+
+  const existente = await prisma.categoria.findFirst({
+    where: { usuarioId, tipo, nome: { equals: nome.replace(/\s+/g, " "), mode: "insensitive" } },
+    orderBy: { paiId: { sort: "asc", nulls: "first" } },
+    select: { id: true, nome: true },
+  });
+
+  return existente
+    ? { categoriaId: existente.id, categoria: existente.nome }
+    : { categoriaId: null, categoria: nome };
+}
+
+/**
+ * Cria categorias a partir dos nomes livres já usados em receitas e despesas sem
+ * categoriaId e vincula esses lançamentos. Variações de caixa/espaço viram uma só
+ * categoria, com o nome mais usado. Sem `aplicar`, só devolve o que seria feito.
+ */
+export async function migrarCategoriasLegadas(usuarioId: string, aplicar: boolean) {
+  const [receitas, despesas, existentes] = await Promise.all([
+    prisma.receita.groupBy({
+      by: ["categoria"],
+      where: { usuarioId, categoriaId: null, categoria: { not: null } },
+      _count: { _all: true },
+    }),
+    prisma.despesa.groupBy({
+      by: ["categoria"],
+      where: { usuarioId, categoriaId: null, categoria: { not: null } },
+      _count: { _all: true },
+    }),
+    prisma.categoria.findMany({ where: { usuarioId, paiId: null } }),
+  ]);
+
+  const grupos = new Map<string, { tipo: Tipo_Lancamento; variacoes: string[]; nome: string; usos: number; maisUsada: number }>();
+
+  const agrupar = (tipo: Tipo_Lancamento, linhas: { categoria: string | null; _count: { _all: number } }[]) => {
+    for (const linha of linhas) {
+      const variacao = linha.categoria as string;
+      const chave = chaveDaCategoria(variacao);
+      if (!chave) continue;
+
+      const grupo = grupos.get(`${tipo}:${chave}`) ?? { tipo, variacoes: [], nome: "", usos: 0, maisUsada: 0 };
+      grupo.variacoes.push(variacao);
+      grupo.usos += linha._count._all;
+      if (linha._count._all > grupo.maisUsada) {
+        grupo.maisUsada = linha._count._all;
+        grupo.nome = variacao.trim().replace(/\s+/g, " ");
+      }
+      grupos.set(`${tipo}:${chave}`, grupo);
+    }
+  };
+
+  agrupar("RECEITA", receitas);
+  agrupar("DESPESA", despesas);
+
+  const plano = Array.from(grupos.values()).map((grupo) => {
+    const existente = existentes.find(
+      (c) => c.tipo === grupo.tipo && chaveDaCategoria(c.nome) === chaveDaCategoria(grupo.nome)
+    );
+    return {
+      tipo: grupo.tipo,
+      nome: existente?.nome ?? grupo.nome,
+      categoriaExistenteId: existente?.id ?? null,
+      variacoes: grupo.variacoes,
+      lancamentos: grupo.usos,
+    };
+  });
+
+  if (!aplicar) {
+    return { aplicado: false, categorias: plano };
+  }
+
+  await prisma.$transaction(async (transacao) => {
+    for (const item of plano) {
+      const categoria =
+        item.categoriaExistenteId != null
+          ? { id: item.categoriaExistenteId }
+          : await transacao.categoria.create({
+              data: { nome: item.nome, tipo: item.tipo, usuarioId },
+              select: { id: true },
+            });
+
+      const where = { usuarioId, categoriaId: null, categoria: { in: item.variacoes } };
+      const data = { categoriaId: categoria.id, categoria: item.nome };
+
+      if (item.tipo === "RECEITA") {
+        await transacao.receita.updateMany({ where, data });
+      } else {
+        await transacao.despesa.updateMany({ where, data });
+      }
+    }
+  });
+
+  return { aplicado: true, categorias: plano };
+}
+
+// Atualiza o nome copiado nos lançamentos quando a categoria muda de nome
+export async function sincronizarNomeCategoria(
+  transacao: Prisma.TransactionClient,
+  categoriaId: number,
+  nome: string
+) {
+  await transacao.receita.updateMany({ where: { categoriaId }, data: { categoria: nome } });
+  await transacao.despesa.updateMany({ where: { categoriaId }, data: { categoria: nome } });
+}
@@ -0,0 +1,70 @@
+import { Prisma } from "@prisma/client";
+
+type Componente = {
+  quantidade: Prisma.Decimal | number;
+  componente: { id: number; nome: string; saldoBase: Prisma.Decimal | number; custoMedio: Prisma.Decimal | number };
+};
+
+// Custo de uma unidade base do kit pelo custo médio atual dos componentes
+export function custoDoKit(componentes: Componente[]) {
+  return Number(
+    componentes
+      .reduce((acc, c) => acc + Number(c.quantidade) * Number(c.componente.custoMedio), 0)
+      .toFixed(6)
+  );
+}
+
+/**
+ * Quantas unidades base do kit o estoque atual dos componentes permite montar,
+ * e qual componente limita. Sem componentes não há o que produzir.
+ */
+export function producaoPossivel(componentes: Componente[]) {
+  let quantidade: number | null = null;
+  let limitante: Componente["componente"] | null = null;
+
+  for (const c of componentes) {
+    const possivel = Math.max(Math.floor(Number(c.componente.saldoBase) / Number(c.quantidade)), 0);
+    if (quantidade == null || possivel < quantidade) {
+      quantidade = possivel;
+      limitante = c.componente;
+    }
+  }
+
+  return {
+    quantidade: quantidade ?? 0,
+    limitante: limitante && { id: limitante.id, nome: limitante.nome },
+  };
+}
+
+/**
+ * Troca cada kit pelo consumo dos seus componentes. Produto comum entra com a
+ * própria quantidade; o mesmo componente em vários kits (ou vendido avulso)
+ * é somado.
+ */
+export function consumoDeEstoque(
+  qtdPorProduto: Map<number, number>,
+  componentesPorKit: Map<number, { componenteId: number; quantidade: Prisma.Decimal | number }[]>
+) {
+  const consumo = new Map<number, number>();
+  const somar = (produtoId: number, qtd: number) => consumo.set(produtoId, (consumo.get(produtoId) ?? 0) + qtd);
+
+  for (const [produtoId, qtd] of qtdPorProduto.entries()) {
+    const componentes = componentesPorKit.get(produtoId);
+
+    if (componentes && componentes.length > 0) {
+      componentes.forEach((c) => somar(c.componenteId, qtd * Number(c.quantidade)));
+    } else {
+      somar(produtoId, qtd);
+    }
+  }
+
+  return consumo;
+}
+
+// Kit exibe o custo derivado dos componentes no lugar do custoMedio gravado
+export function comCustoDoKit<T extends { custoMedio: Prisma.Decimal; componentes: Componente[] }>(produto: T) {
+  if (produto.componentes.length === 0) {
+    return produto;
+  }
+  return { ...produto, custoMedio: new Prisma.Decimal(custoDoKit(produto.componentes)) };
+}
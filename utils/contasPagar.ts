@@ -0,0 +1,61 @@
+import { PrismaClient, Prisma, Status_Despesa } from "@prisma/client";
+import { Intervalo, diaComoData, hojeComoData } from "./periodo";
+
+const prisma = new PrismaClient();
+
+export const STATUS_EM_ABERTO: Status_Despesa[] = ["PENDENTE", "ATRASADA"];
+
+// Status de uma despesa ainda não quitada, conforme o vencimento (coluna @db.Date)
+export function statusEmAberto(vencimento: Date, fuso: string): Status_Despesa {
+  return vencimento < hojeComoData(fuso) ? "ATRASADA" : "PENDENTE";
+}
+
+export function valorEmAberto(despesa: { valor: Prisma.Decimal; valorPago: Prisma.Decimal | null }) {
+  return Number(despesa.valor) - Number(despesa.valorPago ?? 0);
+}
+
+/**
+ * Acerta o status das despesas em aberto do usuário com a data de hoje:
+ * PENDENTE vencida vira ATRASADA e ATRASADA com vencimento adiado volta a PENDENTE.
+ */
+export async function atualizarAtrasadas(usuarioId: string, fuso: string) {
+  const hoje = hojeComoData(fuso);
+
+  await prisma.$transaction([
+    prisma.despesa.updateMany({
+      where: { usuarioId, status: "PENDENTE", vencimento: { lt: hoje } },
+      data: { status: "ATRASADA" },
+    }),
+    prisma.despesa.updateMany({
+      where: { usuarioId, status: "ATRASADA", vencimento: { gte: hoje } },
+      data: { status: "PENDENTE" },
+    }),
+  ]);
+}
+
+/**
+ * Total ainda a pagar (descontando pagamentos parciais) das despesas em aberto,
+ * e quanto disso já está vencido. Com intervalo, considera só os vencimentos nele.
+ */
+export async function totaisAPagar(usuarioId: string, fuso: string, intervalo: Intervalo | null) {
+  const hoje = hojeComoData(fuso);
+  const vencimento = intervalo
+    ? { gte: diaComoData(intervalo.inicio, fuso), lt: diaComoData(intervalo.fim, fuso) }
+    : undefined;
+  const emAberto = { usuarioId, status: { in: STATUS_EM_ABERTO }, vencimento };
+
+  const [todas, vencidas] = await Promise.all([
+    prisma.despesa.aggregate({ where: emAberto, _sum: { valor: true, valorPago: true } }),
+    prisma.despesa.aggregate({
+      where: { ...emAberto, AND: [{ vencimento: { lt: hoje } }] },
+      _sum: { valor: true, valorPago: true },
+    }),
+  ]);
+
+  const restante = (soma: typeof todas._sum) => Number(soma.valor ?? 0) - Number(soma.valorPago ?? 0);
+
+  return {
+    total: restante(todas._sum),
+    atrasado: restante(vencidas._sum),
+  };
+}
@@ -0,0 +1,51 @@
+import nodemailer from "nodemailer"
+
+/**
+ * Transporte de e-mail configurado pelo ambiente.
+ *
+ * EMAIL_TRANSPORTE=smtp (padrão) usa SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER e SMTP_PASS.
+ * EMAIL_TRANSPORTE=json ou stream não envia nada, para testar o fluxo
+ * localmente sem servidor de e-mail. A mensagem gerada só é impressa no console
+ * com EMAIL_EXIBIR_CONTEUDO=true: ela pode ter links de redefinição de senha,
+ * que valem como credencial.
+ */
+function criarTransporte() {
+  const modo = process.env.EMAIL_TRANSPORTE ?? "smtp"
+
+  if (modo === "json") {
+    return nodemailer.createTransport({ jsonTransport: true })
+  }
+
+  if (modo === "stream") {
+    return nodemailer.createTransport({ streamTransport: true, newline: "unix", buffer: true })
+  }
+
+  return nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: Number(process.env.SMTP_PORT ?? 587),
+    secure: process.env.SMTP_SECURE === "true",
+    auth: {
+      user: process.env.SMTP_USER,
+      pass: process.env.SMTP_PASS,
+    },
+  })
+}
+
+const transporte = criarTransporte()
+
+export async function enviarEmail(para: string, assunto: string, texto: string, html?: string) {
+  const info = await transporte.sendMail({
+    from: process.env.EMAIL_REMETENTE ?? process.env.SMTP_USER,
+    to: para,
+    subject: assunto,
+    text: texto,
+    html,
+  })
+
+  // json/stream devolvem a mensagem montada em info.message
+  if (process.env.EMAIL_EXIBIR_CONTEUDO === "true" && "message" in info) {
+    console.log("E-mail gerado (não enviado):", String(info.message))
+  }
+
+  return info
+}
@@ -0,0 +1,86 @@
+const UNIDADES = [
+  "", "um", "dois", "três", "quatro", "cinco", "seis", "sete", "oito", "nove",
+  "dez", "onze", "doze", "treze", "quatorze", "quinze", "dezesseis", "dezessete", "dezoito", "dezenove",
+];
+const DEZENAS = ["", "", "vinte", "trinta", "quarenta", "cinquenta", "sessenta", "setenta", "oitenta", "noventa"];
+const CENTENAS = [
+  "", "cento", "duzentos", "trezentos", "quatrocentos", "quinhentos",
+  "seiscentos", "setecentos", "oitocentos", "novecentos",
+];
+
+// Escala de cada grupo de 3 dígitos, do menor para o maior: [singular, plural]
+const ESCALAS: [string, string][] = [
+  ["", ""],
+  ["mil", "mil"],
+  ["milhão", "milhões"],
+  ["bilhão", "bilhões"],
+];
+
+// 0 a 999
+function ate999(n: number) {
+  if (n === 100) return "cem";
+
+  const partes: string[] = [];
+  const centena = Math.floor(n / 100);
+  const resto = n % 100;
+
+  if (centena > 0) partes.push(CENTENAS[centena]);
+  if (resto > 0 && resto < 20) partes.push(UNIDADES[resto]);
+  if (resto >= 20) {
+    partes.push(DEZENAS[Math.floor(resto / 10)]);
+    if (resto % 10 > 0) partes.push(UNIDADES[resto % 10]);
+  }
+
+  return partes.join(" e ");
+}
+
+// Inteiro por extenso: 1234 -> "mil duzentos e trinta e quatro"
+export function inteiroPorExtenso(n: number) {
+  if (n === 0) return "zero";
+
+  const grupos: number[] = [];
+  for (let resto = n; resto > 0; resto = Math.floor(resto / 1000)) {
+    grupos.push(resto % 1000);
+  }
+
+  const texto: string[] = [];
+
+  for (let i = grupos.length - 1; i >= 0; i--) {
+    const grupo = grupos[i];
+    if (grupo === 0) continue;
+
+    // "mil", não "um mil"
+    const numero = i === 1 && grupo === 1 ? "" : ate999(grupo);
+    const escala = ESCALAS[i][grupo === 1 ? 0 : 1];
+    const parte = [numero, escala].filter(Boolean).join(" ");
+
+    // O último grupo entra com "e" quando é redondo ou menor que cem: "mil e duzentos", "mil e cinco"
+    const ultimo = grupos.slice(0, i).every((g) => g === 0);
+    if (texto.length > 0 && ultimo && (grupo < 100 || grupo % 100 === 0)) {
+      texto.push("e");
+    }
+    texto.push(parte);
+  }
+
+  return texto.join(" ");
+}
+
+// Valor em reais por extenso: 1234.5 -> "mil duzentos e trinta e quatro reais e cinquenta centavos"
+export function valorPorExtenso(valor: number) {
+  const totalCentavos = Math.round(Math.abs(valor) * 100);
+  const reais = Math.floor(totalCentavos / 100);
+  const centavos = totalCentavos % 100;
+
+  const partes: string[] = [];
+
+  if (reais > 0 || centavos === 0) {
+    // Milhão/bilhão redondo pede "de": "um milhão de reais"
+    const de = reais >= 1_000_000 && reais % 1_000_000 === 0 ? " de" : "";
+    partes.push(`${inteiroPorExtenso(reais)}${de} ${reais === 1 ? "real" : "reais"}`);
+  }
+  if (centavos > 0) {
+    partes.push(`${inteiroPorExtenso(centavos)} ${centavos === 1 ? "centavo" : "centavos"}`);
+  }
+
+  return partes.join(" e ");
+}
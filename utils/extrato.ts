@@ -0,0 +1,198 @@
+import { z } from "zod";
+import { booleanoQuery } from "./filtros";
+
+export type DiaLocal = { ano: number; mes: number; dia: number };
+
+export type LancamentoExtrato = {
+  linha: number;
+  dia: DiaLocal;
+  descricao: string;
+  // Com sinal: positivo = crédito, negativo = débito
+  valor: number;
+  fitid: string | null;
+};
+
+export type ErroExtrato = { linha: number; erro: string };
+
+// Coluna por índice (começando em 0) ou pelo nome no cabeçalho
+export const mapeamentoCsvSchema = z.object({
+  separador: z.string().length(1).default(";"),
+  cabecalho: booleanoQuery.default("true"),
+  colunaData: z.string(),
+  colunaDescricao: z.string(),
+  colunaValor: z.string(),
+  colunaFitid: z.string().optional(),
+  formatoData: z.enum(["dd/mm/aaaa", "aaaa-mm-dd"]).default("dd/mm/aaaa"),
+  decimal: z.enum(["virgula", "ponto"]).default("virgula"),
+});
+
+export type MapeamentoCsv = z.infer<typeof mapeamentoCsvSchema>;
+
+/**
+ * Extratos de bancos brasileiros costumam vir em Windows-1252. Usa latin1 quando o
+ * OFX declara isso ou quando o conteúdo não é UTF-8 válido.
+ */
+export function decodificarArquivo(arquivo: Buffer) {
+  const inicio = arquivo.subarray(0, 500).toString("latin1");
+  if (/CHARSET:\s*(1252|ISO-8859-1)/i.test(inicio)) {
+    return arquivo.toString("latin1");
+  }
+
+  const texto = arquivo.toString("utf8");
+  return texto.includes("\uFFFD") ? arquivo.toString("latin1") : texto.replace(/^\uFEFF/, "");
+}
+
+function diaValido(ano: number, mes: number, dia: number): DiaLocal | null {
+  const data = new Date(Date.UTC(ano, mes, dia));
+  if (data.getUTCFullYear() !== ano || data.getUTCMonth() !== mes || data.getUTCDate() !== dia) {
+    return null;
+  }
+  return { ano, mes, dia };
+}
+
+function valorDaTag(bloco: string, tag: string) {
+  // OFX 1.x (SGML) nem sempre fecha as tags: lê até o próximo "<" ou quebra de linha
+  const encontrado = bloco.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"));
+  return encontrado ? encontrado[1].trim() : null;
+}
+
+export function lerOfx(conteudo: string) {
+  const lancamentos: LancamentoExtrato[] = [];
+  const erros: ErroExtrato[] = [];
+
+  const blocos = conteudo.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) ?? [];
+
+  blocos.forEach((bloco, indice) => {
+    const linha = indice + 1;
+    const dtPosted = valorDaTag(bloco, "DTPOSTED");
+    const trnAmt = valorDaTag(bloco, "TRNAMT");
+
+    const data = dtPosted?.match(/^(\d{4})(\d{2})(\d{2})/);
+    const dia = data && diaValido(Number(data[1]), Number(data[2]) - 1, Number(data[3]));
+    if (!dia) {
+      erros.push({ linha, erro: "Data da transação inválida" });
+      return;
+    }
+
+    const valor = Number(trnAmt?.replace(",", "."));
+    if (!trnAmt || Number.isNaN(valor)) {
+      erros.push({ linha, erro: "Valor da transação inválido" });
+      return;
+    }
+
+    lancamentos.push({
+      linha,
+      dia,
+      descricao: valorDaTag(bloco, "MEMO") || valorDaTag(bloco, "NAME") || "Sem descrição",
+      valor,
+      fitid: valorDaTag(bloco, "FITID"),
+    });
+  });
+
+  return { lancamentos, erros };
+}
+
+// Divide uma linha de CSV respeitando campos entre aspas
+function dividirLinhaCsv(linha: string, separador: string) {
+  const campos: string[] = [];
+  let atual = "";
+  let entreAspas = false;
+
+  for (let i = 0; i < linha.length; i++) {
+    const char = linha[i];
+
+    if (char === '"') {
+      if (entreAspas && linha[i + 1] === '"') {
+        atual += '"';
+        i++;
+      } else {
+        entreAspas = !entreAspas;
+      }
+    } else if (char === separador && !entreAspas) {
+      campos.push(atual);
+      atual = "";
+    } else {
+      atual += char;
+    }
+  }
+
+  campos.push(atual);
+  return campos.map((campo) => campo.trim());
+}
+
+function lerValor(texto: string, decimal: MapeamentoCsv["decimal"]) {
+  // "(1.234,56)" também é usado por alguns bancos para débito
+  const negativoEntreParenteses = /^\(.*\)$/.test(texto);
+  let limpo = texto.replace(/[()R$\s]/g, "");
+
+  limpo = decimal === "virgula"
+    ? limpo.replace(/\./g, "").replace(",", ".")
+    : limpo.replace(/,/g, "");
+
+  const valor = Number(limpo);
+  return negativoEntreParenteses ? -Math.abs(valor) : valor;
+}
+
+function lerData(texto: string, formato: MapeamentoCsv["formatoData"]) {
+  const partes = formato === "dd/mm/aaaa"
+    ? texto.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})/)?.slice(1).reverse()
+    : texto.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/)?.slice(1);
+
+  if (!partes) return null;
+  const [ano, mes, dia] = partes.map(Number);
+  return diaValido(ano, mes - 1, dia);
+}
+
+export function lerCsv(conteudo: string, mapeamento: MapeamentoCsv) {
+  const lancamentos: LancamentoExtrato[] = [];
+  const erros: ErroExtrato[] = [];
+
+  const linhas = conteudo.split(/\r?\n/);
+  const cabecalho = mapeamento.cabecalho ? dividirLinhaCsv(linhas[0] ?? "", mapeamento.separador) : [];
+
+  const indiceDaColuna = (coluna: string) => {
+    if (/^\d+$/.test(coluna)) return Number(coluna);
+    return cabecalho.findIndex((titulo) => titulo.toLowerCase() === coluna.toLowerCase());
+  };
+
+  const colunas = {
+    data: indiceDaColuna(mapeamento.colunaData),
+    descricao: indiceDaColuna(mapeamento.colunaDescricao),
+    valor: indiceDaColuna(mapeamento.colunaValor),
+    fitid: mapeamento.colunaFitid ? indiceDaColuna(mapeamento.colunaFitid) : null,
+  };
+
+  if (colunas.data < 0 || colunas.descricao < 0 || colunas.valor < 0 || colunas.fitid === -1) {
+    erros.push({ linha: 1, erro: "Coluna do mapeamento não encontrada no cabeçalho" });
+    return { lancamentos, erros };
+  }
+
+  linhas.forEach((texto, indice) => {
+    const linha = indice + 1;
+    if ((mapeamento.cabecalho && indice === 0) || texto.trim() === "") return;
+
+    const campos = dividirLinhaCsv(texto, mapeamento.separador);
+
+    const dia = lerData(campos[colunas.data] ?? "", mapeamento.formatoData);
+    if (!dia) {
+      erros.push({ linha, erro: "Data inválida" });
+      return;
+    }
+
+    const valor = lerValor(campos[colunas.valor] ?? "", mapeamento.decimal);
+    if (Number.isNaN(valor)) {
+      erros.push({ linha, erro: "Valor inválido" });
+      return;
+    }
+
+    lancamentos.push({
+      linha,
+      dia,
+      descricao: campos[colunas.descricao] || "Sem descrição",
+      valor,
+      fitid: colunas.fitid !== null ? campos[colunas.fitid] || null : null,
+    });
+  });
+
+  return { lancamentos, erros };
+}
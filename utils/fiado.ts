@@ -0,0 +1,34 @@
+import { Prisma } from "@prisma/client";
+
+type ReceitaComPagamentos = {
+  valor: Prisma.Decimal;
+  aPrazo: boolean;
+  vencimento: Date | null;
+  pagamentos?: { valor: Prisma.Decimal }[];
+};
+
+/**
+ * Quanto já foi pago e quanto falta de uma receita. À vista conta como paga por
+ * inteiro; fiado desconta os pagamentos registrados. `hoje` é a data (@db.Date)
+ * usada para dizer se o saldo está vencido.
+ */
+export function saldoDaReceita(receita: ReceitaComPagamentos, hoje: Date) {
+  const valor = Number(receita.valor);
+
+  if (!receita.aPrazo) {
+    return { valorPago: valor, saldoEmAberto: 0, vencida: false };
+  }
+
+  const valorPago = (receita.pagamentos ?? []).reduce((acc, p) => acc + Number(p.valor), 0);
+  const saldoEmAberto = Math.max(0, Number((valor - valorPago).toFixed(2)));
+
+  return {
+    valorPago,
+    saldoEmAberto,
+    vencida: saldoEmAberto > 0 && !!receita.vencimento && receita.vencimento < hoje,
+  };
+}
+
+export function comSaldo<T extends ReceitaComPagamentos>(receita: T, hoje: Date) {
+  return { ...receita, ...saldoDaReceita(receita, hoje) };
+}
@@ -0,0 +1,207 @@
+import { PrismaClient, Prisma, Categoria_Estoque, Status_Despesa } from "@prisma/client";
+import { z } from "zod";
+import { Intervalo, periodoSchema, resolverPeriodo } from "./periodo";
+
+const prisma = new PrismaClient();
+
+export const booleanoQuery = z.enum(["true", "false"]).transform((valor) => valor === "true");
+
+// ?expand=cliente,itens -> ["cliente", "itens"], aceitando só os valores permitidos
+function expandSchema<T extends [string, ...string[]]>(permitidos: T) {
+  return z
+    .string()
+    .transform((valor) => valor.split(",").map((v) => v.trim()).filter(Boolean))
+    .pipe(z.array(z.enum(permitidos)))
+    .default("");
+}
+
+const paginacaoSchema = z.object({
+  limite: z.coerce.number().int().min(1).max(100).default(20),
+  cursor: z.coerce.number().int().positive().optional(),
+  ordem: z.enum(["asc", "desc"]).default("desc"),
+});
+
+export type Paginacao = z.infer<typeof paginacaoSchema>;
+
+export const filtroReceitasSchema = periodoSchema.and(paginacaoSchema).and(
+  z.object({
+    categoria: z.string().optional(),
+    // Inclui as subcategorias
+    categoriaId: z.coerce.number().int().positive().optional(),
+    valorMin: z.coerce.number().optional(),
+    valorMax: z.coerce.number().optional(),
+    clienteId: z.coerce.number().int().positive().optional(),
+    comAnexo: booleanoQuery.optional(),
+    ordenarPor: z.enum(["data", "valor", "createdAt"]).default("data"),
+    expand: expandSchema(["cliente", "itens"]),
+  })
+);
+
+export const filtroDespesasSchema = periodoSchema.and(paginacaoSchema).and(
+  z.object({
+    categoria: z.string().optional(),
+    // Inclui as subcategorias
+    categoriaId: z.coerce.number().int().positive().optional(),
+    valorMin: z.coerce.number().optional(),
+    valorMax: z.coerce.number().optional(),
+    comAnexo: booleanoQuery.optional(),
+    status: z.nativeEnum(Status_Despesa).optional(),
+    ordenarPor: z.enum(["data", "valor", "createdAt", "vencimento"]).default("createdAt"),
+  })
+);
+
+export const filtroClientesSchema = periodoSchema.and(paginacaoSchema).and(
+  z.object({
+    busca: z.string().optional(),
+    ordenarPor: z.enum(["nome", "createdAt", "updatedAt"]).default("updatedAt"),
+    expand: expandSchema(["usuario", "receitas"]),
+  })
+);
+
+export const filtroProdutosSchema = periodoSchema.and(paginacaoSchema).and(
+  z.object({
+    busca: z.string().optional(),
+    categoria: z.nativeEnum(Categoria_Estoque).optional(),
+    comAnexo: booleanoQuery.optional(),
+    ordenarPor: z.enum(["nome", "createdAt", "saldoBase"]).default("createdAt"),
+  })
+);
+
+export type FiltroReceitas = z.infer<typeof filtroReceitasSchema>;
+export type FiltroDespesas = z.infer<typeof filtroDespesasSchema>;
+export type FiltroClientes = z.infer<typeof filtroClientesSchema>;
+export type FiltroProdutos = z.infer<typeof filtroProdutosSchema>;
+
+// Resolve de/ate/periodo no fuso do usuário (só consulta o fuso se houver filtro de data)
+export async function intervaloDoFiltro(
+  usuarioId: string,
+  filtro: z.infer<typeof periodoSchema>
+): Promise<Intervalo | null> {
+  if (!filtro.periodo && !filtro.de && !filtro.ate) {
+    return null;
+  }
+
+  const usuario = await prisma.usuario.findUniqueOrThrow({
+    where: { id: usuarioId },
+    select: { fusoHorario: true },
+  });
+
+  return resolverPeriodo(filtro, usuario.fusoHorario);
+}
+
+// Anexo é a URL antiga (campo anexo) ou arquivo enviado em /arquivos
+function filtroAnexo(comAnexo: boolean | undefined) {
+  if (comAnexo === undefined) return {};
+  return comAnexo
+    ? {
+        OR: [
+          { AND: [{ anexo: { not: null } }, { anexo: { not: "" } }] },
+          { arquivos: { some: {} } },
+        ],
+      }
+    : { OR: [{ anexo: null }, { anexo: "" }], arquivos: { none: {} } };
+}
+
+function filtroCategoria(categoriaId: number | undefined) {
+  return categoriaId ? { OR: [{ id: categoriaId }, { paiId: categoriaId }] } : undefined;
+}
+
+function filtroIntervalo(intervalo: Intervalo | null) {
+  return intervalo ? { gte: intervalo.inicio, lt: intervalo.fim } : undefined;
+}
+
+export function whereReceitas(
+  usuarioId: string,
+  filtro: FiltroReceitas,
+  intervalo: Intervalo | null
+): Prisma.ReceitaWhereInput {
+  return {
+    usuarioId,
+    data: filtroIntervalo(intervalo),
+    categoria: filtro.categoria ? { equals: filtro.categoria.trim(), mode: "insensitive" } : undefined,
+    categoriaCadastrada: filtroCategoria(filtro.categoriaId),
+    valor: { gte: filtro.valorMin, lte: filtro.valorMax },
+    clienteId: filtro.clienteId,
+    ...filtroAnexo(filtro.comAnexo),
+  };
+}
+
+export function whereDespesas(
+  usuarioId: string,
+  filtro: FiltroDespesas,
+  intervalo: Intervalo | null
+): Prisma.DespesaWhereInput {
+  return {
+    usuarioId,
+    data: filtroIntervalo(intervalo),
+    categoria: filtro.categoria ? { equals: filtro.categoria.trim(), mode: "insensitive" } : undefined,
+    categoriaCadastrada: filtroCategoria(filtro.categoriaId),
+    valor: { gte: filtro.valorMin, lte: filtro.valorMax },
+    status: filtro.status,
+    ...filtroAnexo(filtro.comAnexo),
+  };
+}
+
+export function whereClientes(
+  usuarioId: string,
+  filtro: FiltroClientes,
+  intervalo: Intervalo | null
+): Prisma.ClienteWhereInput {
+  return {
+    usuarioId,
+    createdAt: filtroIntervalo(intervalo),
+    nome: filtro.busca ? { contains: filtro.busca, mode: "insensitive" } : undefined,
+  };
+}
+
+export function whereProdutos(
+  usuarioId: string,
+  filtro: FiltroProdutos,
+  intervalo: Intervalo | null
+): Prisma.ProdutoWhereInput {
+  return {
+    usuarioId,
+    ativo: true,
+    createdAt: filtroIntervalo(intervalo),
+    nome: filtro.busca ? { contains: filtro.busca, mode: "insensitive" } : undefined,
+    categoria: filtro.categoria,
+    ...filtroAnexo(filtro.comAnexo),
+  };
+}
+
+// { data: "desc" } | { valor: "desc" } | ...: um objeto por campo de ordenação
+type OrdemPorCampo<C extends string> = { [K in C]: { [P in K]: Prisma.SortOrder } }[C];
+
+/**
+ * Argumentos de paginação por cursor (id do último item da página anterior).
+ * O id entra como desempate para a ordenação ser estável.
+ */
+export function argsPaginacao<C extends string>(paginacao: Paginacao, ordenarPor: C) {
+  const orderBy: (OrdemPorCampo<C> | { id: Prisma.SortOrder })[] = [
+    { [ordenarPor]: paginacao.ordem } as OrdemPorCampo<C>,
+    { id: paginacao.ordem },
+  ];
+
+  return {
+    take: paginacao.limite + 1,
+    ...(paginacao.cursor && { cursor: { id: paginacao.cursor }, skip: 1 }),
+    orderBy,
+  };
+}
+
+// Envelope padrão das listagens: busca limite + 1 para saber se existe próxima página
+export function montarPagina<T extends { id: number }, R = T>(
+  linhas: T[],
+  total: number,
+  limite: number,
+  formatar?: (linha: T) => R
+) {
+  const temMais = linhas.length > limite;
+  const pagina = temMais ? linhas.slice(0, limite) : linhas;
+
+  return {
+    dados: formatar ? pagina.map(formatar) : pagina,
+    total,
+    proximoCursor: temMais ? pagina[pagina.length - 1].id : null,
+  };
+}
@@ -0,0 +1,63 @@
+import { PrismaClient, Prisma } from "@prisma/client";
+
+const prisma = new PrismaClient();
+
+type CustoReceita = {
+  receitaId: number;
+  custo: Prisma.Decimal | null;
+  itensSemCusto: bigint;
+};
+
+export function margem(receita: number, custo: number) {
+  const lucroBruto = Number((receita - custo).toFixed(2));
+  return {
+    receita: Number(receita.toFixed(2)),
+    custo: Number(custo.toFixed(2)),
+    lucroBruto,
+    margemPercentual: receita > 0 ? Number(((lucroBruto / receita) * 100).toFixed(2)) : null,
+  };
+}
+
+/**
+ * Custo das mercadorias vendidas em cada receita: soma de qtdBase x custoMedio
+ * gravado no item na hora da venda. Itens antigos, sem custo gravado, ficam de
+ * fora da soma e são contados em itensSemCusto.
+ */
+export async function custosDasReceitas(receitaIds: number[]) {
+  if (receitaIds.length === 0) {
+    return new Map<number, { custo: number; itensSemCusto: number }>();
+  }
+
+  const linhas = await prisma.$queryRaw<CustoReceita[]>`
+    SELECT "receitaId",
+           SUM("qtdBase" * "custoMedio") AS "custo",
+           COUNT(*) FILTER (WHERE "custoMedio" IS NULL) AS "itensSemCusto"
+    FROM "receitaItems"
+    WHERE "receitaId" IN (${Prisma.join(receitaIds)})
+    GROUP BY "receitaId"
+  `;
+
+  return new Map(
+    linhas.map((linha) => [
+      linha.receitaId,
+      { custo: Number(linha.custo ?? 0), itensSemCusto: Number(linha.itensSemCusto) },
+    ])
+  );
+}
+
+// Acrescenta custo, lucro bruto e margem à receita a partir do mapa de custosDasReceitas
+export function comMargem<T extends { id: number; valor: Prisma.Decimal }>(
+  receita: T,
+  custos: Map<number, { custo: number; itensSemCusto: number }>
+) {
+  const { custo, itensSemCusto } = custos.get(receita.id) ?? { custo: 0, itensSemCusto: 0 };
+  const { lucroBruto, margemPercentual } = margem(Number(receita.valor), custo);
+
+  return {
+    ...receita,
+    custo: Number(custo.toFixed(2)),
+    lucroBruto,
+    margemPercentual,
+    itensSemCusto,
+  };
+}
@@ -0,0 +1,159 @@
+import { Atividade_MEI } from "@prisma/client";
+
+// Teto anual de faturamento bruto do MEI e o proporcional por mês de atividade
+export const LIMITE_ANUAL_MEI = 81000;
+export const LIMITE_MENSAL_MEI = LIMITE_ANUAL_MEI / 12;
+
+// Salário mínimo de cada ano, base do INSS do DAS. Atualizar a cada janeiro;
+// ano sem valor usa o mais recente conhecido.
+const SALARIO_MINIMO: Record<number, number> = {
+  2023: 1320,
+  2024: 1412,
+  2025: 1518,
+  2026: 1621,
+};
+
+function salarioMinimo(ano: number) {
+  const anos = Object.keys(SALARIO_MINIMO).map(Number).sort((a, b) => a - b);
+  const referencia = anos.filter((a) => a <= ano).pop() ?? anos[0];
+  return SALARIO_MINIMO[referencia];
+}
+
+/**
+ * Valor mensal do DAS: 5% do salário mínimo de INSS, mais R$ 1 de ICMS para
+ * comércio e R$ 5 de ISS para serviços (os dois quando a atividade é mista).
+ */
+export function valorDas(ano: number, atividade: Atividade_MEI) {
+  const inss = salarioMinimo(ano) * 0.05;
+  const icms = atividade === "COMERCIO" || atividade === "AMBOS" ? 1 : 0;
+  const iss = atividade === "SERVICOS" || atividade === "AMBOS" ? 5 : 0;
+  return Number((inss + icms + iss).toFixed(2));
+}
+
+/**
+ * Limite do ano: no ano de abertura é proporcional aos meses de atividade,
+ * contando o mês de abertura inteiro. mesInicial é 0-11.
+ */
+export function limiteDoAno(ano: number, abertura: Date | null) {
+  const abriuNoAno = abertura != null && abertura.getUTCFullYear() === ano;
+  const mesInicial = abriuNoAno ? abertura.getUTCMonth() : 0;
+  const meses = 12 - mesInicial;
+
+  return {
+    valor: Number((LIMITE_MENSAL_MEI * meses).toFixed(2)),
+    proporcional: abriuNoAno,
+    meses,
+    mesInicial,
+  };
+}
+
+// Acima de 120% o desenquadramento retroage ao início do ano
+export const NIVEIS_ALERTA_MEI = [
+  { nivel: 80, mensagem: "Faturamento passou de 80% do limite do MEI" },
+  { nivel: 100, mensagem: "Faturamento ultrapassou o limite do MEI: o desenquadramento vale a partir de janeiro do próximo ano" },
+  {
+    nivel: 120,
+    mensagem: "Faturamento passou de 20% acima do limite do MEI: o desenquadramento retroage ao início do ano",
+  },
+] as const;
+
+const UM_DIA = 24 * 60 * 60 * 1000;
+
+// Guia do mês sai no início do mês seguinte: pagamento mais de 20 dias antes do
+// vencimento não é daquela competência
+const DIAS_ANTES_DO_VENCIMENTO_DAS = 20;
+// Valor até 20% diferente do DAS ainda conta (multa e juros de atraso)
+const TOLERANCIA_VALOR_DAS = 0.2;
+
+// DAS da competência vence no dia 20 do mês seguinte (mes 0-11)
+export function vencimentoDoDas(ano: number, mes: number) {
+  return new Date(Date.UTC(ano, mes + 1, 20));
+}
+
+export function valorPareceDas(valor: number, valorMensal: number) {
+  return Math.abs(valor - valorMensal) <= valorMensal * TOLERANCIA_VALOR_DAS;
+}
+
+const MESES = ["jan", "fev", "mar", "abr", "mai", "jun", "jul", "ago", "set", "out", "nov", "dez"];
+
+/**
+ * Competência que a despesa diz pagar: pelo vencimento (mês anterior ao dele) ou
+ * por "02/2026", "fevereiro", "fev/2026"... na descrição. Mês sem ano é o último
+ * que já tinha começado na data de referência. null se nada indica o mês.
+ */
+export function competenciaInformada(despesa: { vencimento: Date | null; descricao: string }, referencia: Date) {
+  if (despesa.vencimento) {
+    const competencia = new Date(Date.UTC(despesa.vencimento.getUTCFullYear(), despesa.vencimento.getUTCMonth() - 1, 1));
+    return { ano: competencia.getUTCFullYear(), mes: competencia.getUTCMonth() };
+  }
+
+  // Sem dígito ou barra antes, para "pago em 20/03/2026" não virar março
+  const numerica = despesa.descricao.match(/(?<![\d/])(0?[1-9]|1[0-2])\s*[/.-]\s*(\d{4})\b/);
+  if (numerica) {
+    return { ano: Number(numerica[2]), mes: Number(numerica[1]) - 1 };
+  }
+
+  const porNome = despesa.descricao
+    .toLocaleLowerCase("pt-BR")
+    .match(
+      /\b(janeiro|fevereiro|março|marco|abril|maio|junho|julho|agosto|setembro|outubro|novembro|dezembro|jan|fev|mar|abr|mai|jun|jul|ago|set|out|nov|dez)(?![a-zà-ú])(?:\s*(?:de\s+|\/|-)?\s*(\d{4}))?/
+    );
+  if (porNome) {
+    const mes = MESES.indexOf(porNome[1].slice(0, 3));
+    const ano = porNome[2]
+      ? Number(porNome[2])
+      : referencia.getUTCFullYear() - (mes > referencia.getUTCMonth() ? 1 : 0);
+    return { ano, mes };
+  }
+
+  return null;
+}
+
+type PagamentoDas = {
+  referencia: Date;
+  competencia: { ano: number; mes: number } | null;
+  paga: boolean;
+};
+
+/**
+ * Distribui as despesas de DAS entre os meses (0-11) do ano. Quem informa a
+ * competência fica com ela; as demais, em ordem de data, quitam a competência
+ * em aberto mais antiga que já podia ser paga, para um DAS pago com atraso não
+ * cair no mês seguinte. Com duas despesas no mesmo mês, vale a paga.
+ */
+export function distribuirPagamentosDas<T extends PagamentoDas>(ano: number, meses: number[], pagamentos: T[]) {
+  const porMes = new Map<number, T>();
+
+  for (const pagamento of pagamentos) {
+    const { competencia } = pagamento;
+    if (!competencia || competencia.ano !== ano || !meses.includes(competencia.mes)) continue;
+
+    const atual = porMes.get(competencia.mes);
+    if (!atual || (!atual.paga && pagamento.paga)) {
+      porMes.set(competencia.mes, pagamento);
+    }
+  }
+
+  const semCompetencia = pagamentos
+    .filter((p) => !p.competencia)
+    .sort((a, b) => a.referencia.getTime() - b.referencia.getTime());
+
+  for (const pagamento of semCompetencia) {
+    const mes = meses.find(
+      (m) =>
+        !porMes.has(m) &&
+        vencimentoDoDas(ano, m).getTime() - DIAS_ANTES_DO_VENCIMENTO_DAS * UM_DIA <= pagamento.referencia.getTime()
+    );
+    if (mes != null) {
+      porMes.set(mes, pagamento);
+    }
+  }
+
+  return porMes;
+}
+
+// "DAS", "DAS MEI", "Pagamento DAS"... sem casar com a preposição "das"
+export function pareceDas(texto: string | null) {
+  if (!texto) return false;
+  return /\bDAS\b/.test(texto) || /^das\b/i.test(texto.trim()) || /\bdas[\s-]*mei\b/i.test(texto);
+}
@@ -0,0 +1,135 @@
+import { Prisma, Tipo_Movimento_Estoque } from "@prisma/client";
+import { AlertaEstoqueBaixo } from "./notificacoes";
+
+const MOTIVO_SALDO_INICIAL = "Saldo anterior ao histórico";
+
+type DadosMovimento = {
+  produtoId: number;
+  usuarioId: string;
+  tipo: Tipo_Movimento_Estoque;
+  quantidade: number;
+  receitaId?: number | null;
+  motivo?: string | null;
+};
+
+/**
+ * Grava uma linha no histórico de estoque. Deve ser chamada dentro da mesma
+ * transação e DEPOIS de alterar o saldoBase, para registrar o saldo resultante.
+ * No primeiro movimento do produto, o estoque que ele já tinha entra antes
+ * como SALDO_INICIAL, para a soma do histórico bater com o saldoBase.
+ * Quando uma saída faz o saldo cruzar o estoque mínimo, devolve o alerta para
+ * o chamador notificar depois do commit (notificarTodos("estoqueBaixo", ...)).
+ */
+export async function registrarMovimento(
+  transacao: Prisma.TransactionClient,
+  dados: DadosMovimento
+) {
+  const produto = await transacao.produto.findUniqueOrThrow({
+    where: { id: dados.produtoId },
+    select: { nome: true, unidadeBase: true, saldoBase: true, estoqueMinimo: true },
+  });
+
+  if (dados.tipo !== "SALDO_INICIAL") {
+    const jaTemHistorico = await transacao.movimentoEstoque.findFirst({
+      where: { produtoId: dados.produtoId },
+      select: { id: true },
+    });
+
+    const saldoAnterior = Number((Number(produto.saldoBase) - dados.quantidade).toFixed(6));
+
+    if (!jaTemHistorico && saldoAnterior !== 0) {
+      await transacao.movimentoEstoque.create({
+        data: {
+          produtoId: dados.produtoId,
+          usuarioId: dados.usuarioId,
+          tipo: "SALDO_INICIAL",
+          quantidade: saldoAnterior,
+          motivo: MOTIVO_SALDO_INICIAL,
+          saldoResultante: saldoAnterior,
+        },
+      });
+    }
+  }
+
+  const movimento = await transacao.movimentoEstoque.create({
+    data: {
+      produtoId: dados.produtoId,
+      usuarioId: dados.usuarioId,
+      tipo: dados.tipo,
+      quantidade: dados.quantidade,
+      receitaId: dados.receitaId ?? null,
+      motivo: dados.motivo ?? null,
+      saldoResultante: produto.saldoBase,
+    },
+  });
+
+  const saldo = Number(produto.saldoBase);
+  const minimo = produto.estoqueMinimo == null ? null : Number(produto.estoqueMinimo);
+  const cruzouMinimo =
+    dados.quantidade < 0 && minimo != null && saldo < minimo && saldo - dados.quantidade >= minimo;
+
+  const alertaEstoque: AlertaEstoqueBaixo | null = cruzouMinimo
+    ? {
+        usuarioId: dados.usuarioId,
+        produtoId: dados.produtoId,
+        produto: produto.nome,
+        unidadeBase: produto.unidadeBase,
+        saldoBase: saldo,
+        estoqueMinimo: minimo,
+        movimentoId: movimento.id,
+      }
+    : null;
+
+  return { movimento, alertaEstoque };
+}
+
+/**
+ * Produtos cujo histórico começou sem SALDO_INICIAL (movimentos gravados antes
+ * de registrarMovimento abrir o histórico). O saldo de antes do primeiro
+ * movimento sai do saldoResultante dele. Com gravar, o SALDO_INICIAL é
+ * inserido com a data do primeiro movimento. Devolve produtoId -> saldo inicial.
+ */
+export async function completarSaldosIniciais(
+  transacao: Prisma.TransactionClient,
+  usuarioId: string,
+  gravar: boolean
+) {
+  const primeiros = await transacao.movimentoEstoque.findMany({
+    where: {
+      usuarioId,
+      produto: { movimentos: { none: { tipo: "SALDO_INICIAL" } } },
+    },
+    orderBy: [{ produtoId: "asc" }, { createdAt: "asc" }, { id: "asc" }],
+    distinct: ["produtoId"],
+  });
+
+  const saldosIniciais = new Map<number, number>();
+
+  for (const primeiro of primeiros) {
+    const saldoAnterior = Number(
+      (Number(primeiro.saldoResultante) - Number(primeiro.quantidade)).toFixed(6)
+    );
+
+    if (saldoAnterior === 0) {
+      continue;
+    }
+
+    saldosIniciais.set(primeiro.produtoId, saldoAnterior);
+
+    if (gravar) {
+      await transacao.movimentoEstoque.create({
+        data: {
+          produtoId: primeiro.produtoId,
+          usuarioId,
+          tipo: "SALDO_INICIAL",
+          quantidade: saldoAnterior,
+          motivo: MOTIVO_SALDO_INICIAL,
+          saldoResultante: saldoAnterior,
+          createdAt: primeiro.createdAt,
+        },
+      });
+    }
+  }
+
+  return saldosIniciais;
+}
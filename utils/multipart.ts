@@ -0,0 +1,84 @@
+export type ParteMultipart = {
+  campo: string;
+  // Nome do arquivo no computador do usuário; null para campos de texto
+  nomeArquivo: string | null;
+  tipo: string | null;
+  conteudo: Buffer;
+};
+
+export function boundaryDe(contentType: string | undefined) {
+  const encontrado = contentType?.match(/^multipart\/form-data;.*boundary=(?:"([^"]+)"|([^;]+))/i);
+  return encontrado ? (encontrado[1] ?? encontrado[2]).trim() : null;
+}
+
+function lerCabecalhos(bloco: string) {
+  const cabecalhos = new Map<string, string>();
+  for (const linha of bloco.split("\r\n")) {
+    const separador = linha.indexOf(":");
+    if (separador > 0) {
+      cabecalhos.set(linha.slice(0, separador).trim().toLowerCase(), linha.slice(separador + 1).trim());
+    }
+  }
+  return cabecalhos;
+}
+
+function parametro(valor: string, nome: string) {
+  // filename*=UTF-8''nome%20codificado tem prioridade sobre filename="..."
+  const estendido = valor.match(new RegExp(`(?:^|;)\\s*${nome}\\*=(?:UTF-8'')?([^;]+)`, "i"));
+  if (estendido) {
+    try {
+      return decodeURIComponent(estendido[1].trim());
+    } catch {
+      return estendido[1].trim();
+    }
+  }
+  const simples = valor.match(new RegExp(`(?:^|;)\\s*${nome}="([^"]*)"`, "i"));
+  return simples ? simples[1] : null;
+}
+
+/**
+ * Separa um corpo multipart/form-data já lido em memória (express.raw) nas suas
+ * partes. Partes sem Content-Disposition válido são ignoradas.
+ */
+export function lerMultipart(corpo: Buffer, boundary: string) {
+  const delimitador = Buffer.from(`--${boundary}`);
+  const partes: ParteMultipart[] = [];
+
+  let inicio = corpo.indexOf(delimitador);
+  while (inicio !== -1) {
+    inicio += delimitador.length;
+
+    // "--" logo após o delimitador marca o fim do corpo
+    if (corpo.subarray(inicio, inicio + 2).toString() === "--") {
+      break;
+    }
+
+    const fim = corpo.indexOf(delimitador, inicio);
+    if (fim === -1) {
+      break;
+    }
+
+    // Cada parte: \r\n cabeçalhos \r\n\r\n conteúdo \r\n
+    const parte = corpo.subarray(inicio + 2, fim - 2);
+    const fimCabecalhos = parte.indexOf("\r\n\r\n");
+
+    if (fimCabecalhos !== -1) {
+      const cabecalhos = lerCabecalhos(parte.subarray(0, fimCabecalhos).toString("utf8"));
+      const disposicao = cabecalhos.get("content-disposition") ?? "";
+      const campo = parametro(disposicao, "name");
+
+      if (campo) {
+        partes.push({
+          campo,
+          nomeArquivo: parametro(disposicao, "filename"),
+          tipo: cabecalhos.get("content-type") ?? null,
+          conteudo: parte.subarray(fimCabecalhos + 4),
+        });
+      }
+    }
+
+    inicio = fim;
+  }
+
+  return partes;
+}
@@ -0,0 +1,76 @@
+import { EventEmitter } from "events";
+import { PrismaClient } from "@prisma/client";
+
+const prisma = new PrismaClient();
+
+export type AlertaOrcamento = {
+  usuarioId: string;
+  orcamentoId: number;
+  categoriaId: number;
+  categoria: string;
+  // 80 = chegou a 80% do limite, 100 = estourou
+  nivel: 80 | 100;
+  planejado: number;
+  gasto: number;
+  percentualUsado: number;
+  mes: string;
+};
+
+// Quantidades na unidade base do produto
+export type AlertaEstoqueBaixo = {
+  usuarioId: string;
+  produtoId: number;
+  produto: string;
+  unidadeBase: string;
+  saldoBase: number;
+  estoqueMinimo: number;
+  movimentoId: number;
+};
+
+// Eventos que o sistema de notificações (e-mail, push, etc.) pode escutar
+export type EventosNotificacao = {
+  orcamentoAlerta: AlertaOrcamento;
+  estoqueBaixo: AlertaEstoqueBaixo;
+};
+
+const emissor = new EventEmitter();
+
+/**
+ * Grava o evento para o usuário (GET /usuarios/me/notificacoes, dashboard) e
+ * avisa os ouvintes. Chamar depois que a operação que gerou o evento foi salva.
+ */
+export async function notificar<E extends keyof EventosNotificacao>(evento: E, dados: EventosNotificacao[E]) {
+  await prisma.notificacao.create({
+    data: { tipo: evento, dados, usuarioId: dados.usuarioId },
+  });
+  emissor.emit(evento, dados);
+}
+
+/**
+ * Registra um ouvinte. Ele roda depois da resposta e um erro nele só vai para o
+ * log: notificação nunca derruba a operação que a gerou.
+ */
+export function aoNotificar<E extends keyof EventosNotificacao>(
+  evento: E,
+  ouvinte: (dados: EventosNotificacao[E]) => unknown
+) {
+  emissor.on(evento, (dados: EventosNotificacao[E]) => {
+    setImmediate(() => {
+      Promise.resolve()
+        .then(() => ouvinte(dados))
+        .catch((error) => console.error(`Erro ao processar notificação ${evento}:`, error));
+    });
+  });
+}
+
+// Para chamar após o commit sem que uma falha ao notificar vire erro da requisição
+export async function notificarTodos<E extends keyof EventosNotificacao>(
+  evento: E,
+  lista: EventosNotificacao[E][]
+) {
+  for (const dados of lista) {
+    await notificar(evento, dados).catch((error) =>
+      console.error(`Erro ao gravar notificação ${evento}:`, error)
+    );
+  }
+}
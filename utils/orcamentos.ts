@@ -0,0 +1,119 @@
+import { PrismaClient, Prisma } from "@prisma/client";
+import { diaNoFuso, meiaNoiteNoFuso } from "./periodo";
+import { AlertaOrcamento, notificarTodos } from "./notificacoes";
+
+const prisma = new PrismaClient();
+
+const LIMIARES = [100, 80] as const;
+
+// "2025-03" a partir de ano e mês (0-11)
+function chaveDoMes(ano: number, mes: number) {
+  return `${ano}-${String(mes + 1).padStart(2, "0")}`;
+}
+
+function percentual(gasto: number, planejado: number) {
+  return planejado > 0 ? Number(((gasto / planejado) * 100).toFixed(2)) : 0;
+}
+
+/**
+ * Planejado x gasto de cada orçamento do usuário no mês (ano e mês 0-11 no fuso
+ * do usuário). O gasto soma as despesas com data no mês, pagas ou não, da
+ * categoria e das subcategorias dela.
+ */
+export async function resumoOrcamentos(usuarioId: string, ano: number, mes: number, fuso: string) {
+  const inicio = meiaNoiteNoFuso(ano, mes, 1, fuso);
+  const fim = meiaNoiteNoFuso(ano, mes + 1, 1, fuso);
+
+  const orcamentos = await prisma.orcamento.findMany({
+    where: { usuarioId },
+    include: { categoria: { include: { filhas: { select: { id: true } } } } },
+    orderBy: { categoria: { nome: "asc" } },
+  });
+
+  const categoriaIds = orcamentos.flatMap((o) => [o.categoriaId, ...o.categoria.filhas.map((f) => f.id)]);
+
+  const gastos = await prisma.despesa.groupBy({
+    by: ["categoriaId"],
+    where: { usuarioId, categoriaId: { in: categoriaIds }, data: { gte: inicio, lt: fim } },
+    _sum: { valor: true },
+  });
+
+  const gastoDa = (categoriaId: number) =>
+    Number(gastos.find((g) => g.categoriaId === categoriaId)?._sum.valor ?? 0);
+
+  return orcamentos.map((orcamento) => {
+    const planejado = Number(orcamento.valorMensal);
+    const gasto = Number(
+      [orcamento.categoriaId, ...orcamento.categoria.filhas.map((f) => f.id)]
+        .reduce((acc, id) => acc + gastoDa(id), 0)
+        .toFixed(2)
+    );
+
+    return {
+      orcamentoId: orcamento.id,
+      categoria: {
+        id: orcamento.categoria.id,
+        nome: orcamento.categoria.nome,
+        cor: orcamento.categoria.cor,
+        icone: orcamento.categoria.icone,
+      },
+      planejado,
+      gasto,
+      restante: Number((planejado - gasto).toFixed(2)),
+      percentualUsado: percentual(gasto, planejado),
+    };
+  });
+}
+
+/**
+ * Confere se uma despesa recém-criada fez algum orçamento passar de 80% ou 100%
+ * no mês dela. Cada limiar cruzado gera um alerta, que também é notificado.
+ */
+export async function alertasDaDespesa(
+  usuarioId: string,
+  despesa: { categoriaId: number | null; valor: Prisma.Decimal | number; data: Date },
+  fuso: string
+) {
+  if (despesa.categoriaId == null) {
+    return [];
+  }
+
+  const categoria = await prisma.categoria.findUnique({
+    where: { id: despesa.categoriaId },
+    select: { id: true, paiId: true },
+  });
+  if (!categoria) {
+    return [];
+  }
+
+  // Orçamento da própria categoria e, para subcategoria, o da categoria pai
+  const afetadas = [categoria.id, categoria.paiId].filter((id): id is number => id != null);
+
+  const { ano, mes } = diaNoFuso(despesa.data, fuso);
+  const resumo = await resumoOrcamentos(usuarioId, ano, mes, fuso);
+  const valor = Number(despesa.valor);
+
+  const alertas: AlertaOrcamento[] = [];
+
+  for (const item of resumo.filter((r) => afetadas.includes(r.categoria.id))) {
+    const antes = percentual(item.gasto - valor, item.planejado);
+    const limiar = LIMIARES.find((l) => antes < l && item.percentualUsado >= l);
+
+    if (limiar) {
+      alertas.push({
+        usuarioId,
+        orcamentoId: item.orcamentoId,
+        categoriaId: item.categoria.id,
+        categoria: item.categoria.nome,
+        nivel: limiar,
+        planejado: item.planejado,
+        gasto: item.gasto,
+        percentualUsado: item.percentualUsado,
+        mes: chaveDoMes(ano, mes),
+      });
+    }
+  }
+
+  await notificarTodos("orcamentoAlerta", alertas);
+  return alertas;
+}
@@ -0,0 +1,95 @@
+/**
+ * Gerador de PDF mínimo, só com texto e linhas, para documentos simples como
+ * o recibo. Usa as fontes Courier padrão do PDF (não precisam ser embutidas) e
+ * por serem monoespaçadas dá para alinhar colunas contando caracteres.
+ */
+
+type Alinhamento = "esquerda" | "direita" | "centro";
+
+type OpcoesTexto = {
+  tamanho?: number;
+  negrito?: boolean;
+  alinhamento?: Alinhamento;
+};
+
+// A4 em pontos
+export const LARGURA_PAGINA = 595;
+export const ALTURA_PAGINA = 842;
+
+// Largura de cada caractere da Courier: 600/1000 do tamanho da fonte
+export function larguraTexto(texto: string, tamanho: number) {
+  return texto.length * tamanho * 0.6;
+}
+
+// WinAnsiEncoding cobre os acentos do português; o resto vira "?"
+function codificar(texto: string) {
+  const limpo = Array.from(texto, (c) => (c.charCodeAt(0) <= 0xff ? c : "?")).join("");
+  return limpo.replace(/[\\()]/g, (c) => `\\${c}`).replace(/[\r\n]/g, " ");
+}
+
+const numero = (n: number) => Number(n.toFixed(2)).toString();
+
+export class DocumentoPdf {
+  private paginas: string[][] = [[]];
+
+  private get atual() {
+    return this.paginas[this.paginas.length - 1];
+  }
+
+  novaPagina() {
+    this.paginas.push([]);
+  }
+
+  // y conta de cima para baixo, como em uma folha
+  texto(x: number, y: number, texto: string, opcoes: OpcoesTexto = {}) {
+    const tamanho = opcoes.tamanho ?? 10;
+    const largura = larguraTexto(texto, tamanho);
+    const inicio =
+      opcoes.alinhamento === "direita" ? x - largura : opcoes.alinhamento === "centro" ? x - largura / 2 : x;
+
+    this.atual.push(
+      `BT /${opcoes.negrito ? "F2" : "F1"} ${tamanho} Tf ${numero(inicio)} ${numero(ALTURA_PAGINA - y)} Td (${codificar(texto)}) Tj ET`
+    );
+  }
+
+  linha(x1: number, y1: number, x2: number, y2: number, espessura = 0.5) {
+    this.atual.push(
+      `${numero(espessura)} w ${numero(x1)} ${numero(ALTURA_PAGINA - y1)} m ${numero(x2)} ${numero(ALTURA_PAGINA - y2)} l S`
+    );
+  }
+
+  gerar() {
+    const objetos: string[] = [];
+    // Objetos fixos: 1 catálogo, 2 árvore de páginas, 3 e 4 fontes; depois página + conteúdo
+    const idsPaginas = this.paginas.map((_, i) => 5 + i * 2);
+
+    objetos.push("<< /Type /Catalog /Pages 2 0 R >>");
+    objetos.push(`<< /Type /Pages /Kids [${idsPaginas.map((id) => `${id} 0 R`).join(" ")}] /Count ${idsPaginas.length} >>`);
+    objetos.push("<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>");
+    objetos.push("<< /Type /Font /Subtype /Type1 /BaseFont /Courier-Bold /Encoding /WinAnsiEncoding >>");
+
+    this.paginas.forEach((comandos, i) => {
+      const conteudo = comandos.join("\n");
+      objetos.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${LARGURA_PAGINA} ${ALTURA_PAGINA}] ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${idsPaginas[i] + 1} 0 R >>`
+      );
+      objetos.push(`<< /Length ${Buffer.byteLength(conteudo, "latin1")} >>\nstream\n${conteudo}\nendstream`);
+    });
+
+    let saida = "%PDF-1.4\n";
+    const posicoes: number[] = [];
+
+    objetos.forEach((objeto, i) => {
+      posicoes.push(Buffer.byteLength(saida, "latin1"));
+      saida += `${i + 1} 0 obj\n${objeto}\nendobj\n`;
+    });
+
+    const inicioXref = Buffer.byteLength(saida, "latin1");
+    saida += `xref\n0 ${objetos.length + 1}\n0000000000 65535 f \n`;
+    saida += posicoes.map((p) => `${String(p).padStart(10, "0")} 00000 n \n`).join("");
+    saida += `trailer\n<< /Size ${objetos.length + 1} /Root 1 0 R >>\nstartxref\n${inicioXref}\n%%EOF\n`;
+
+    return Buffer.from(saida, "latin1");
+  }
+}
@@ -0,0 +1,173 @@
+import { z } from "zod";
+
+export const FUSO_PADRAO = "America/Sao_Paulo";
+
+export type Intervalo = {
+  inicio: Date;
+  // exclusivo
+  fim: Date;
+};
+
+export type Periodo = Intervalo & {
+  anterior: Intervalo;
+};
+
+const dataIso = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, { message: "Use o formato AAAA-MM-DD" });
+
+export const periodoSchema = z
+  .object({
+    periodo: z.enum(["mes", "trimestre", "ano", "ultimos30"]).optional(),
+    de: dataIso.optional(),
+    ate: dataIso.optional(),
+  })
+  .refine((p) => !(p.periodo && (p.de || p.ate)), {
+    message: "Informe um período pré-definido ou de/ate, não os dois",
+  })
+  .refine((p) => !(p.de && p.ate && p.de > p.ate), {
+    message: "A data inicial deve ser anterior à final",
+  });
+
+export function fusoValido(fuso: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: fuso });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Ano, mês (0-11) e dia de um instante no fuso do usuário
+function partesNoFuso(data: Date, fuso: string) {
+  const partes = new Intl.DateTimeFormat("en-US", {
+    timeZone: fuso,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(data);
+
+  const valor = (tipo: string) => Number(partes.find((p) => p.type === tipo)?.value);
+
+  return {
+    ano: valor("year"),
+    mes: valor("month") - 1,
+    dia: valor("day"),
+    hora: valor("hour"),
+    minuto: valor("minute"),
+    segundo: valor("second"),
+  };
+}
+
+/**
+ * Instante UTC da meia-noite local de ano/mês/dia no fuso informado.
+ * Aceita mês e dia fora do intervalo (ex.: mês -1), como Date.UTC.
+ */
+export function meiaNoiteNoFuso(ano: number, mes: number, dia: number, fuso: string) {
+  const palpite = Date.UTC(ano, mes, dia);
+  const p = partesNoFuso(new Date(palpite), fuso);
+  const offset = Date.UTC(p.ano, p.mes, p.dia, p.hora, p.minuto, p.segundo) - palpite;
+  return new Date(palpite - offset);
+}
+
+export function diaNoFuso(data: Date, fuso: string) {
+  const { ano, mes, dia } = partesNoFuso(data, fuso);
+  return { ano, mes, dia };
+}
+
+export function hojeNoFuso(fuso: string) {
+  return diaNoFuso(new Date(), fuso);
+}
+
+// Dia local do instante como meia-noite UTC, o formato das colunas @db.Date
+export function diaComoData(data: Date, fuso: string) {
+  const { ano, mes, dia } = diaNoFuso(data, fuso);
+  return new Date(Date.UTC(ano, mes, dia));
+}
+
+export function hojeComoData(fuso: string) {
+  return diaComoData(new Date(), fuso);
+}
+
+function deslocarDias(ano: number, mes: number, dia: number, dias: number) {
+  const data = new Date(Date.UTC(ano, mes, dia + dias));
+  return { ano: data.getUTCFullYear(), mes: data.getUTCMonth(), dia: data.getUTCDate() };
+}
+
+/**
+ * Resolve os filtros de período (?periodo=mes|trimestre|ano|ultimos30 ou ?de=&ate=)
+ * para um intervalo [inicio, fim) no fuso do usuário, junto com o período anterior
+ * equivalente. Sem filtro nenhum devolve null (histórico inteiro).
+ */
+export function resolverPeriodo(filtro: z.infer<typeof periodoSchema>, fuso: string): Periodo | null {
+  const hoje = hojeNoFuso(fuso);
+  const dia = (a: number, m: number, d: number) => meiaNoiteNoFuso(a, m, d, fuso);
+
+  if (filtro.periodo === "mes") {
+    return {
+      inicio: dia(hoje.ano, hoje.mes, 1),
+      fim: dia(hoje.ano, hoje.mes + 1, 1),
+      anterior: { inicio: dia(hoje.ano, hoje.mes - 1, 1), fim: dia(hoje.ano, hoje.mes, 1) },
+    };
+  }
+
+  if (filtro.periodo === "trimestre") {
+    const mesInicial = hoje.mes - (hoje.mes % 3);
+    return {
+      inicio: dia(hoje.ano, mesInicial, 1),
+      fim: dia(hoje.ano, mesInicial + 3, 1),
+      anterior: { inicio: dia(hoje.ano, mesInicial - 3, 1), fim: dia(hoje.ano, mesInicial, 1) },
+    };
+  }
+
+  if (filtro.periodo === "ano") {
+    return {
+      inicio: dia(hoje.ano, 0, 1),
+      fim: dia(hoje.ano + 1, 0, 1),
+      anterior: { inicio: dia(hoje.ano - 1, 0, 1), fim: dia(hoje.ano, 0, 1) },
+    };
+  }
+
+  if (filtro.periodo === "ultimos30") {
+    // Inclui o dia de hoje: 30 dias terminando amanhã à meia-noite
+    return {
+      inicio: dia(hoje.ano, hoje.mes, hoje.dia - 29),
+      fim: dia(hoje.ano, hoje.mes, hoje.dia + 1),
+      anterior: { inicio: dia(hoje.ano, hoje.mes, hoje.dia - 59), fim: dia(hoje.ano, hoje.mes, hoje.dia - 29) },
+    };
+  }
+
+  if (!filtro.de && !filtro.ate) {
+    return null;
+  }
+
+  // de/ate são dias inteiros no fuso do usuário; ate é inclusivo
+  const [anoDe, mesDe, diaDe] = (filtro.de ?? "1970-01-01").split("-").map(Number);
+  const ate = filtro.ate
+    ? filtro.ate.split("-").map(Number)
+    : [hoje.ano, hoje.mes + 1, hoje.dia];
+  const fimExclusivo = deslocarDias(ate[0], ate[1] - 1, ate[2], 1);
+
+  const inicio = dia(anoDe, mesDe - 1, diaDe);
+  const fim = dia(fimExclusivo.ano, fimExclusivo.mes, fimExclusivo.dia);
+
+  // Período anterior com o mesmo número de dias, terminando onde este começa
+  const duracaoDias = Math.round((fim.getTime() - inicio.getTime()) / 86400000);
+  const inicioAnterior = deslocarDias(anoDe, mesDe - 1, diaDe, -duracaoDias);
+
+  return {
+    inicio,
+    fim,
+    anterior: { inicio: dia(inicioAnterior.ano, inicioAnterior.mes, inicioAnterior.dia), fim: inicio },
+  };
+}
+
+// Variação percentual em relação ao período anterior (null quando o anterior é zero)
+export function variacaoPercentual(atual: number, anterior: number) {
+  if (anterior === 0) {
+    return null;
+  }
+  return Number((((atual - anterior) / Math.abs(anterior)) * 100).toFixed(2));
+}
@@ -0,0 +1,131 @@
+import { PrismaClient } from "@prisma/client";
+
+const prisma = new PrismaClient();
+
+type Plano = {
+  nome: string;
+  // null = sem limite
+  maxProdutosAtivos: number | null;
+  maxClientes: number | null;
+  maxReceitasMes: number | null;
+  relatorio: boolean;
+};
+
+export type RecursoLimitado = "produtos" | "clientes" | "receitas";
+
+// Índice = Usuario.vipLevel. Níveis acima do último usam o último plano.
+export const PLANOS: Plano[] = [
+  { nome: "Gratuito", maxProdutosAtivos: 20, maxClientes: 30, maxReceitasMes: 50, relatorio: false },
+  { nome: "Essencial", maxProdutosAtivos: 100, maxClientes: 200, maxReceitasMes: 500, relatorio: true },
+  { nome: "Profissional", maxProdutosAtivos: null, maxClientes: null, maxReceitasMes: null, relatorio: true },
+];
+
+export function obterPlano(vipLevel: number) {
+  const nivel = Math.min(Math.max(vipLevel, 0), PLANOS.length - 1);
+  return { nivel, ...PLANOS[nivel] };
+}
+
+function inicioDoMes() {
+  const agora = new Date();
+  return new Date(Date.UTC(agora.getUTCFullYear(), agora.getUTCMonth(), 1));
+}
+
+export async function calcularUso(usuarioId: string) {
+  const [produtos, clientes, receitas] = await Promise.all([
+    prisma.produto.count({ where: { usuarioId, ativo: true } }),
+    prisma.cliente.count({ where: { usuarioId } }),
+    // Conta pelo cadastro, não pela data da receita, para lançamentos retroativos também contarem
+    prisma.receita.count({ where: { usuarioId, createdAt: { gte: inicioDoMes() } } }),
+  ]);
+
+  return { produtos, clientes, receitas };
+}
+
+function limiteDoRecurso(plano: Plano, recurso: RecursoLimitado) {
+  if (recurso === "produtos") return plano.maxProdutosAtivos;
+  if (recurso === "clientes") return plano.maxClientes;
+  return plano.maxReceitasMes;
+}
+
+async function planoDoUsuario(usuarioId: string) {
+  const usuario = await prisma.usuario.findUniqueOrThrow({
+    where: { id: usuarioId },
+    select: { vipLevel: true },
+  });
+
+  return obterPlano(usuario.vipLevel);
+}
+
+/**
+ * Verifica se o usuário ainda pode criar mais `quantidade` registros do recurso.
+ * Devolve null quando pode, ou o corpo do erro 402 quando o limite do plano foi atingido.
+ */
+export async function verificarLimitePlano(usuarioId: string, recurso: RecursoLimitado, quantidade = 1) {
+  const plano = await planoDoUsuario(usuarioId);
+  const limite = limiteDoRecurso(plano, recurso);
+
+  if (limite === null) {
+    return null;
+  }
+
+  const uso = await calcularUso(usuarioId);
+
+  if (uso[recurso] + quantidade <= limite) {
+    return null;
+  }
+
+  return {
+    erro: "Limite do plano atingido",
+    plano: plano.nome,
+    recurso,
+    limite,
+    uso: uso[recurso],
+  };
+}
+
+/**
+ * Limite mensal de receitas para lançamentos com data própria (importação de
+ * extrato, recorrências atrasadas): cada mês conta as receitas com data nele
+ * mais as novas daquele mês; o mês corrente também respeita a contagem pelo
+ * cadastro de calcularUso. Devolve null quando cabem, ou o corpo do erro 402
+ * com o primeiro mês (AAAA-MM) que passaria do limite.
+ */
+export async function verificarLimiteReceitasPorMes(usuarioId: string, datas: Date[]) {
+  const plano = await planoDoUsuario(usuarioId);
+  const limite = plano.maxReceitasMes;
+
+  if (limite === null || datas.length === 0) {
+    return null;
+  }
+
+  const novasPorMes = new Map<string, number>();
+  for (const data of datas) {
+    const mes = data.toISOString().slice(0, 7);
+    novasPorMes.set(mes, (novasPorMes.get(mes) ?? 0) + 1);
+  }
+
+  const mesCorrente = inicioDoMes().toISOString().slice(0, 7);
+
+  for (const [mes, quantidade] of Array.from(novasPorMes.entries()).sort(([a], [b]) => a.localeCompare(b))) {
+    const inicio = new Date(`${mes}-01T00:00:00.000Z`);
+    const fim = new Date(Date.UTC(inicio.getUTCFullYear(), inicio.getUTCMonth() + 1, 1));
+
+    let uso = await prisma.receita.count({ where: { usuarioId, data: { gte: inicio, lt: fim } } });
+    if (mes === mesCorrente) {
+      uso = Math.max(uso, (await calcularUso(usuarioId)).receitas);
+    }
+
+    if (uso + quantidade > limite) {
+      return {
+        erro: "Limite do plano atingido",
+        plano: plano.nome,
+        recurso: "receitas" as const,
+        limite,
+        uso,
+        mes,
+      };
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,198 @@
+import { PrismaClient, Prisma, Unidade } from "@prisma/client";
+import { DocumentoPdf, LARGURA_PAGINA, larguraTexto } from "./pdf";
+import { valorPorExtenso } from "./extenso";
+import { quantidadeParaExibicao } from "./unidades";
+
+const prisma = new PrismaClient();
+
+export type DadosRecibo = {
+  numero: number;
+  data: Date;
+  fuso: string;
+  valor: number;
+  descricao: string | null;
+  receitaId: number;
+  vendedor: { nome: string; cpf: string };
+  cliente: { nome: string; endereco: string | null } | null;
+  itens: {
+    produto: string;
+    unidadeBase: Unidade;
+    qtdBase: Prisma.Decimal;
+    precoUnit: Prisma.Decimal | null;
+    subtotal: Prisma.Decimal;
+  }[];
+};
+
+/**
+ * Número do recibo da receita. Na primeira impressão pega o próximo da
+ * sequência do usuário; depois devolve sempre o mesmo. null se a receita não
+ * for do usuário.
+ */
+export async function numerarRecibo(receitaId: number, usuarioId: string) {
+  return prisma.$transaction(async (transacao) => {
+    // Trava a receita para duas impressões simultâneas não gastarem dois números
+    const [receita] = await transacao.$queryRaw<{ numeroRecibo: number | null }[]>(
+      Prisma.sql`SELECT "numeroRecibo" FROM "receitas" WHERE "id" = ${receitaId} AND "usuarioId" = ${usuarioId} FOR UPDATE`
+    );
+
+    if (!receita) {
+      return null;
+    }
+    if (receita.numeroRecibo != null) {
+      return receita.numeroRecibo;
+    }
+
+    const { ultimoNumeroRecibo } = await transacao.usuario.update({
+      where: { id: usuarioId },
+      data: { ultimoNumeroRecibo: { increment: 1 } },
+      select: { ultimoNumeroRecibo: true },
+    });
+
+    await transacao.receita.update({
+      where: { id: receitaId },
+      data: { numeroRecibo: ultimoNumeroRecibo },
+    });
+
+    return ultimoNumeroRecibo;
+  });
+}
+
+const MARGEM = 50;
+const DIREITA = LARGURA_PAGINA - MARGEM;
+const LIMITE_PAGINA = 780;
+
+function moeda(valor: number) {
+  return valor.toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
+}
+
+function quantidade(valor: number) {
+  return valor.toLocaleString("pt-BR", { maximumFractionDigits: 3 });
+}
+
+function formatarCpf(cpf: string) {
+  const digitos = cpf.replace(/\D/g, "");
+  return digitos.length === 11 ? digitos.replace(/(\d{3})(\d{3})(\d{3})(\d{2})/, "$1.$2.$3-$4") : cpf;
+}
+
+// Quebra em linhas de até maxCaracteres, sem cortar palavras
+function quebrarLinhas(texto: string, maxCaracteres: number) {
+  const linhas: string[] = [];
+  let atual = "";
+
+  for (const palavra of texto.split(/\s+/)) {
+    if (atual && (atual + " " + palavra).length > maxCaracteres) {
+      linhas.push(atual);
+      atual = palavra;
+    } else {
+      atual = atual ? `${atual} ${palavra}` : palavra;
+    }
+  }
+
+  if (atual) linhas.push(atual);
+  return linhas;
+}
+
+function cortar(texto: string, maxCaracteres: number) {
+  return texto.length > maxCaracteres ? `${texto.slice(0, maxCaracteres - 3)}...` : texto;
+}
+
+export function gerarReciboPdf(dados: DadosRecibo) {
+  const pdf = new DocumentoPdf();
+  const caracteresPorLinha = Math.floor((DIREITA - MARGEM) / larguraTexto("x", 10));
+  let y = 70;
+
+  pdf.texto(MARGEM, y, "RECIBO", { tamanho: 18, negrito: true });
+  pdf.texto(DIREITA, y, `Nº ${String(dados.numero).padStart(6, "0")}`, { tamanho: 12, negrito: true, alinhamento: "direita" });
+  y += 12;
+  pdf.linha(MARGEM, y, DIREITA, y, 1);
+  y += 22;
+
+  pdf.texto(MARGEM, y, `Vendedor: ${dados.vendedor.nome}`);
+  pdf.texto(DIREITA, y, `Data: ${dados.data.toLocaleDateString("pt-BR", { timeZone: dados.fuso })}`, {
+    alinhamento: "direita",
+  });
+  y += 15;
+  pdf.texto(MARGEM, y, `CPF: ${formatarCpf(dados.vendedor.cpf)}`);
+  y += 22;
+
+  pdf.texto(MARGEM, y, `Cliente: ${dados.cliente?.nome ?? "não informado"}`);
+  y += 15;
+  if (dados.cliente?.endereco) {
+    for (const linha of quebrarLinhas(`Endereço: ${dados.cliente.endereco}`, caracteresPorLinha)) {
+      pdf.texto(MARGEM, y, linha);
+      y += 15;
+    }
+  }
+  y += 15;
+
+  // Colunas: produto à esquerda, números alinhados à direita
+  const colunas = { quantidade: 320, unidade: 330, preco: 455, subtotal: DIREITA };
+
+  const cabecalhoTabela = () => {
+    pdf.texto(MARGEM, y, "Produto", { negrito: true });
+    pdf.texto(colunas.quantidade, y, "Qtd", { negrito: true, alinhamento: "direita" });
+    pdf.texto(colunas.unidade, y, "Un", { negrito: true });
+    pdf.texto(colunas.preco, y, "Preço unit.", { negrito: true, alinhamento: "direita" });
+    pdf.texto(colunas.subtotal, y, "Subtotal", { negrito: true, alinhamento: "direita" });
+    y += 6;
+    pdf.linha(MARGEM, y, DIREITA, y);
+    y += 14;
+  };
+
+  if (dados.itens.length > 0) {
+    cabecalhoTabela();
+
+    for (const item of dados.itens) {
+      if (y > LIMITE_PAGINA) {
+        pdf.novaPagina();
+        y = 70;
+        cabecalhoTabela();
+      }
+
+      const exibicao = quantidadeParaExibicao(item.qtdBase, item.unidadeBase);
+      const subtotal = Number(item.subtotal);
+      // Preço pela unidade de exibição; sem subtotal, o preço informado no item
+      const preco = subtotal > 0 && exibicao.quantidade > 0
+        ? subtotal / exibicao.quantidade
+        : Number(item.precoUnit ?? 0);
+
+      pdf.texto(MARGEM, y, cortar(item.produto, 38));
+      pdf.texto(colunas.quantidade, y, quantidade(exibicao.quantidade), { alinhamento: "direita" });
+      pdf.texto(colunas.unidade, y, exibicao.unidade);
+      pdf.texto(colunas.preco, y, moeda(preco), { alinhamento: "direita" });
+      pdf.texto(colunas.subtotal, y, moeda(subtotal), { alinhamento: "direita" });
+      y += 15;
+    }
+
+    pdf.linha(MARGEM, y - 9, DIREITA, y - 9);
+    y += 6;
+  }
+
+  if (y > LIMITE_PAGINA - 120) {
+    pdf.novaPagina();
+    y = 70;
+  }
+
+  pdf.texto(DIREITA, y, `TOTAL: ${moeda(dados.valor)}`, { tamanho: 12, negrito: true, alinhamento: "direita" });
+  y += 30;
+
+  const referente = dados.descricao?.trim() || `venda nº ${dados.receitaId}`;
+  const declaracao =
+    `Recebi${dados.cliente ? ` de ${dados.cliente.nome}` : ""} a importância de ${moeda(dados.valor)} ` +
+    `(${valorPorExtenso(dados.valor)}), referente a ${referente}.`;
+
+  for (const linha of quebrarLinhas(declaracao, caracteresPorLinha)) {
+    pdf.texto(MARGEM, y, linha);
+    y += 15;
+  }
+
+  y += 50;
+  const centro = LARGURA_PAGINA / 2;
+  pdf.linha(centro - 150, y, centro + 150, y);
+  y += 15;
+  pdf.texto(centro, y, dados.vendedor.nome, { alinhamento: "centro" });
+  y += 13;
+  pdf.texto(centro, y, `CPF: ${formatarCpf(dados.vendedor.cpf)}`, { alinhamento: "centro" });
+
+  return pdf.gerar();
+}
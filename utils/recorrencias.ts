@@ -0,0 +1,148 @@
+import { PrismaClient, Recorrencia } from "@prisma/client";
+import { hojeComoData, meiaNoiteNoFuso } from "./periodo";
+import { statusEmAberto } from "./contasPagar";
+import { resolverCategoria } from "./categorias";
+import { verificarLimiteReceitasPorMes } from "./planos";
+
+const prisma = new PrismaClient();
+
+const UM_DIA = 24 * 60 * 60 * 1000;
+
+type LimiteAtingido = NonNullable<Awaited<ReturnType<typeof verificarLimiteReceitasPorMes>>>;
+
+type Agenda = Pick<Recorrencia, "frequencia" | "diaDoMes" | "diaDaSemana" | "mesDoAno" | "inicio" | "fim">;
+
+// Datas @db.Date chegam como meia-noite UTC; toda a conta aqui é feita em UTC
+function diaDoMesLimitado(ano: number, mes: number, dia: number) {
+  const ultimoDia = new Date(Date.UTC(ano, mes + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(ano, mes, Math.min(dia, ultimoDia)));
+}
+
+/**
+ * Datas das ocorrências da agenda entre `desde` e `ate` (inclusive), respeitando
+ * início e fim da recorrência. Dia 31 em mês de 30 dias cai no dia 30, etc.
+ */
+export function calcularOcorrencias(agenda: Agenda, desde: Date, ate: Date) {
+  const inicio = agenda.inicio > desde ? agenda.inicio : desde;
+  const limite = agenda.fim && agenda.fim < ate ? agenda.fim : ate;
+  const datas: Date[] = [];
+
+  if (inicio > limite) {
+    return datas;
+  }
+
+  if (agenda.frequencia === "SEMANAL") {
+    const data = new Date(inicio);
+    data.setUTCDate(data.getUTCDate() + (((agenda.diaDaSemana ?? 0) - data.getUTCDay() + 7) % 7));
+
+    while (data <= limite) {
+      datas.push(new Date(data));
+      data.setUTCDate(data.getUTCDate() + 7);
+    }
+    return datas;
+  }
+
+  const diaDoMes = agenda.diaDoMes ?? 1;
+
+  if (agenda.frequencia === "MENSAL") {
+    for (let mes = inicio.getUTCMonth(); ; mes++) {
+      const data = diaDoMesLimitado(inicio.getUTCFullYear(), mes, diaDoMes);
+      if (data > limite) break;
+      if (data >= inicio) datas.push(data);
+    }
+    return datas;
+  }
+
+  for (let ano = inicio.getUTCFullYear(); ; ano++) {
+    const data = diaDoMesLimitado(ano, (agenda.mesDoAno ?? 1) - 1, diaDoMes);
+    if (data > limite) break;
+    if (data >= inicio) datas.push(data);
+  }
+  return datas;
+}
+
+/**
+ * Gera as receitas/despesas vencidas até hoje das recorrências ativas do usuário.
+ * Pode ser chamada quantas vezes for preciso: cada ocorrência é única por
+ * (recorrenciaId, ocorrencia) e repetições são ignoradas pelo banco.
+ * Receitas que passariam do limite mensal do plano (no mês de cada ocorrência) não
+ * são geradas e voltam em receitasNaoGeradas; a recorrência fica pendente para a
+ * próxima geração.
+ */
+export async function gerarRecorrenciasPendentes(usuarioId: string) {
+  const usuario = await prisma.usuario.findUniqueOrThrow({
+    where: { id: usuarioId },
+    select: { fusoHorario: true },
+  });
+
+  const fuso = usuario.fusoHorario;
+  const hoje = hojeComoData(fuso);
+
+  const recorrencias = await prisma.recorrencia.findMany({
+    where: { usuarioId, ativa: true, inicio: { lte: hoje } },
+  });
+
+  let receitasGeradas = 0;
+  let despesasGeradas = 0;
+  const receitasNaoGeradas: { recorrenciaId: number; descricao: string; ocorrencias: number; limite: LimiteAtingido }[] = [];
+
+  for (const recorrencia of recorrencias) {
+    const desde = recorrencia.geradoAte
+      ? new Date(recorrencia.geradoAte.getTime() + UM_DIA)
+      : recorrencia.inicio;
+
+    // Recorrência guarda só o nome: vincula à categoria cadastrada a cada geração
+    const categoria = await resolverCategoria(usuarioId, recorrencia.tipo, { categoria: recorrencia.categoria });
+
+    const dados = calcularOcorrencias(recorrencia, desde, hoje).map((ocorrencia) => ({
+      descricao: recorrencia.descricao,
+      valor: recorrencia.valor,
+      ...categoria,
+      data: meiaNoiteNoFuso(ocorrencia.getUTCFullYear(), ocorrencia.getUTCMonth(), ocorrencia.getUTCDate(), fuso),
+      ocorrencia,
+      recorrenciaId: recorrencia.id,
+      usuarioId,
+    }));
+
+    if (dados.length > 0 && recorrencia.tipo === "RECEITA") {
+      const limiteAtingido = await verificarLimiteReceitasPorMes(usuarioId, dados.map((d) => d.ocorrencia));
+      if (limiteAtingido) {
+        receitasNaoGeradas.push({
+          recorrenciaId: recorrencia.id,
+          descricao: recorrencia.descricao,
+          ocorrencias: dados.length,
+          limite: limiteAtingido,
+        });
+        continue;
+      }
+    }
+
+    await prisma.$transaction(async (transacao) => {
+      if (dados.length > 0 && recorrencia.tipo === "RECEITA") {
+        const criadas = await transacao.receita.createMany({
+          data: dados.map((d) => ({ ...d, clienteId: recorrencia.clienteId })),
+          skipDuplicates: true,
+        });
+        receitasGeradas += criadas.count;
+      } else if (dados.length > 0) {
+        // Despesa gerada entra como conta a pagar, vencendo no dia da ocorrência
+        const criadas = await transacao.despesa.createMany({
+          data: dados.map((d) => ({
+            ...d,
+            vencimento: d.ocorrencia,
+            status: statusEmAberto(d.ocorrencia, fuso),
+          })),
+          skipDuplicates: true,
+        });
+        despesasGeradas += criadas.count;
+      }
+
+      await transacao.recorrencia.update({
+        where: { id: recorrencia.id },
+        data: { geradoAte: hoje },
+      });
+    });
+  }
+
+  return { receitasGeradas, despesasGeradas, receitasNaoGeradas };
+}
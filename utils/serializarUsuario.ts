@@ -0,0 +1,7 @@
+import { Usuario } from "@prisma/client"
+
+// Remove o hash da senha antes de qualquer resposta com dados de usuário
+export function serializarUsuario<T extends Pick<Usuario, "senha">>(usuario: T) {
+  const { senha, ...dados } = usuario
+  return dados
+}
@@ -0,0 +1,112 @@
+import { Unidade } from "@prisma/client";
+
+/**
+ * Conversão entre a unidade base do produto (g, ml, un), em que saldo e
+ * quantidades são gravados, e as unidades em que o usuário digita e lê.
+ * Além da unidade de exibição (kg, L, un), o produto pode declarar unidades
+ * alternativas como "CX = 12 UN" ou "DZ = 12 UN", com o fator já na base.
+ */
+
+type UnidadeAlternativa = {
+  sigla: string;
+  // Quantas unidades base cabem em uma desta unidade
+  fatorBase: unknown;
+};
+
+type ProdutoComUnidades = {
+  unidadeBase: Unidade;
+  unidadesAlternativas?: UnidadeAlternativa[];
+};
+
+// Unidade de exibição e quantas unidades base ela vale
+const EXIBICAO: Record<Unidade, { sigla: string; fator: number }> = {
+  UN: { sigla: "un", fator: 1 },
+  G: { sigla: "kg", fator: 1000 },
+  ML: { sigla: "L", fator: 1000 },
+};
+
+// Siglas que o sistema já entende e não podem virar unidade alternativa
+export const SIGLAS_RESERVADAS = ["UN", "G", "KG", "ML", "L"];
+
+export function unidadeDeExibicao(unidadeBase: Unidade) {
+  return EXIBICAO[unidadeBase].sigla;
+}
+
+// Quantidade de exibição (kg, L, un) para a unidade base (g, ml, un)
+export function converterParaBase(quantidade: number, unidadeBase: Unidade) {
+  return quantidade * EXIBICAO[unidadeBase].fator;
+}
+
+// Inverso de converterParaBase, com 3 casas (1 g = 0,001 kg)
+export function converterParaExibicao(quantidade: number, unidadeBase: Unidade) {
+  return Number((quantidade / EXIBICAO[unidadeBase].fator).toFixed(3));
+}
+
+/**
+ * Quantas unidades base vale uma da unidade informada. Sem unidade, vale a de
+ * exibição; aceita também a própria base ("g", "ml") e as alternativas do
+ * produto, sem diferenciar maiúsculas. Unidade desconhecida devolve null.
+ */
+export function fatorDaUnidade(produto: ProdutoComUnidades, unidade?: string | null) {
+  if (!unidade) {
+    return EXIBICAO[produto.unidadeBase].fator;
+  }
+
+  const sigla = unidade.trim().toUpperCase();
+
+  if (sigla === EXIBICAO[produto.unidadeBase].sigla.toUpperCase()) {
+    return EXIBICAO[produto.unidadeBase].fator;
+  }
+  if (sigla === produto.unidadeBase) {
+    return 1;
+  }
+
+  const alternativa = produto.unidadesAlternativas?.find((u) => u.sigla === sigla);
+  return alternativa ? Number(alternativa.fatorBase) : null;
+}
+
+export class UnidadeInvalidaError extends Error {
+  constructor(public unidade: string) {
+    super(`Unidade ${unidade} não cadastrada para o produto`);
+  }
+}
+
+// Quantidade digitada em qualquer unidade aceita pelo produto, na unidade base
+export function quantidadeParaBase(quantidade: number, produto: ProdutoComUnidades, unidade?: string | null) {
+  const fator = fatorDaUnidade(produto, unidade);
+  if (fator == null) {
+    throw new UnidadeInvalidaError(unidade!);
+  }
+  return quantidade * fator;
+}
+
+// Para listar quantidades avulsas (itens vendidos, reposição) na unidade de exibição
+export function quantidadeParaExibicao(quantidadeBase: unknown, unidadeBase: Unidade) {
+  return {
+    quantidade: converterParaExibicao(Number(quantidadeBase ?? 0), unidadeBase),
+    unidade: unidadeDeExibicao(unidadeBase),
+  };
+}
+
+export function formatarProdutoParaExibicao<T extends ProdutoComUnidades>(produto: T & Record<string, any>) {
+  const fator = EXIBICAO[produto.unidadeBase].fator;
+
+  const limiteDisplay = (valor: unknown) =>
+    valor == null ? null : converterParaExibicao(Number(valor), produto.unidadeBase);
+
+  return {
+    ...produto,
+    saldoDisplay: converterParaExibicao(Number(produto.saldoBase ?? 0), produto.unidadeBase),
+    unidadeDisplay: unidadeDeExibicao(produto.unidadeBase),
+    // Preço por kg/L em vez de por g/ml
+    precoMedioDisplay: Number((Number(produto.custoMedio ?? 0) * fator).toFixed(6)),
+    estoqueMinimoDisplay: limiteDisplay(produto.estoqueMinimo),
+    estoqueIdealDisplay: limiteDisplay(produto.estoqueIdeal),
+    ...(produto.unidadesAlternativas && {
+      unidadesAlternativas: produto.unidadesAlternativas.map((u) => ({
+        ...u,
+        fatorDisplay: converterParaExibicao(Number(u.fatorBase), produto.unidadeBase),
+      })),
+    }),
+  };
+}